@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { SYNC_KEY_PATTERN, parseSyncRequest } from '@/lib/sync'
+import { pullChanges, pushChanges } from '@/lib/server/syncStore'
+
+export const dynamic = 'force-dynamic'
+
+const getKey = (request: Request) => {
+  const key = request.headers.get('x-sync-key')
+  return key && SYNC_KEY_PATTERN.test(key) ? key : null
+}
+
+const missingKey = () => NextResponse.json({ error: 'Missing or invalid sync key' }, { status: 401 })
+
+// GET /api/sync?cursor=N returns everything changed after N.
+export const GET = async (request: Request) => {
+  const key = getKey(request)
+  if (!key) return missingKey()
+  const cursor = parseInt(new URL(request.url).searchParams.get('cursor') ?? '0') || 0
+  return NextResponse.json(await pullChanges(key, cursor))
+}
+
+// POST /api/sync pushes local changes and returns everything changed since the sent cursor.
+export const POST = async (request: Request) => {
+  const key = getKey(request)
+  if (!key) return missingKey()
+  let body
+  try {
+    body = parseSyncRequest(await request.json())
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : 'Invalid request' }, { status: 400 })
+  }
+  return NextResponse.json(await pushChanges(key, body))
+}
@@ -0,0 +1,219 @@
+'use client'
+
+import { useState } from 'react'
+import { Goal, GoalTarget } from '@/lib/types'
+import { getCategoryInfos } from '@/lib/categories'
+import { GoalStatus, describeGoalTarget, formatGoalDate, getGoalPresets, getGoalProgress } from '@/lib/goals'
+import { useStore } from '@/lib/store'
+import GoalTargetInput from '@/components/GoalTargetInput'
+import BadgeShelf from '@/components/BadgeShelf'
+import ArchivedList from '@/components/ArchivedList'
+
+const STATUS_STYLES: { [status in GoalStatus]: { label: string; className: string; bar: string } } = {
+  achieved: { label: 'Achieved', className: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300', bar: '#10b981' },
+  'on-track': { label: 'On track', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300', bar: '#0ea5e9' },
+  behind: { label: 'Behind', className: 'bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-300', bar: '#f59e0b' },
+  missed: { label: 'Missed', className: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300', bar: '#ef4444' },
+  upcoming: { label: 'Upcoming', className: 'bg-gray-100 text-gray-700 dark:bg-gray-600 dark:text-gray-200', bar: '#94a3b8' }
+}
+
+const inputClass = 'px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none'
+
+export default function GoalsPage() {
+  const { habits, projects, categories, goals, commit } = useStore()
+  const presets = getGoalPresets()
+  const [name, setName] = useState('')
+  const [target, setTarget] = useState<GoalTarget>({ type: 'habits', habitIds: [] })
+  const [count, setCount] = useState('10')
+  const [start, setStart] = useState(presets[0].start)
+  const [deadline, setDeadline] = useState(presets[0].deadline)
+
+  const activeHabits = habits.filter(h => !h.archived)
+  const categoryInfos = getCategoryInfos(categories, habits)
+  const isTargetValid =
+    target.type === 'habits' ? target.habitIds.length > 0 :
+    target.type === 'category' ? !!target.category : true
+
+  const addGoal = () => {
+    const goalCount = parseInt(count)
+    if (!isTargetValid || !(goalCount > 0) || !start || !deadline || start > deadline) return
+    const goal: Goal = {
+      id: Date.now().toString(),
+      name: name.trim() || `${describeGoalTarget(target, habits, projects)} × ${goalCount}`,
+      target,
+      count: goalCount,
+      start,
+      deadline
+    }
+    commit(`Add goal "${goal.name}"`, { goals: [...goals, goal] })
+    setName('')
+    setTarget({ type: 'habits', habitIds: [] })
+    setCount('10')
+  }
+
+  const setGoalArchived = (goalId: string, archived: boolean) => {
+    const goal = goals.find(g => g.id === goalId)
+    commit(`${archived ? 'Archived' : 'Restored'} "${goal?.name}"`, {
+      goals: goals.map(g => g.id === goalId ? { ...g, archived } : g)
+    }, { undoToast: archived })
+  }
+
+  const deleteGoal = (goalId: string) => {
+    const goal = goals.find(g => g.id === goalId)
+    commit(`Deleted "${goal?.name}"`, { goals: goals.filter(g => g.id !== goalId) }, { undoToast: true })
+  }
+
+  const activeGoals = goals.filter(g => !g.archived)
+  const archivedGoals = goals.filter(g => g.archived)
+
+  return (
+    <>
+      {/* Add Goal Form */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-6">
+        <h2 className="text-2xl font-bold mb-4 text-gray-800 dark:text-white">Add New Goal</h2>
+        <div className="flex flex-col gap-4">
+          <input
+            type="text"
+            placeholder="Goal name (e.g., Exercise 20 times in November)"
+            aria-label="Goal name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className={`px-4 ${inputClass}`}
+          />
+          <GoalTargetInput
+            value={target}
+            onChange={setTarget}
+            habits={activeHabits}
+            projects={projects.filter(p => !p.archived)}
+            categories={categoryInfos}
+          />
+          <div className="flex flex-wrap items-center gap-3 text-gray-700 dark:text-gray-300">
+            <label className="flex items-center gap-2">
+              Target
+              <input
+                type="number"
+                min={1}
+                value={count}
+                onChange={(e) => setCount(e.target.value)}
+                className={`w-24 ${inputClass}`}
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              from
+              <input type="date" value={start} onChange={(e) => setStart(e.target.value)} className={inputClass} />
+            </label>
+            <label className="flex items-center gap-2">
+              to
+              <input type="date" value={deadline} min={start} onChange={(e) => setDeadline(e.target.value)} className={inputClass} />
+            </label>
+            {presets.map(preset => (
+              <button
+                key={preset.label}
+                type="button"
+                onClick={() => {
+                  setStart(preset.start)
+                  setDeadline(preset.deadline)
+                }}
+                aria-pressed={start === preset.start && deadline === preset.deadline}
+                className={`px-3 py-1 rounded-lg text-sm font-medium ${
+                  start === preset.start && deadline === preset.deadline
+                    ? 'bg-indigo-600 text-white'
+                    : 'bg-gray-100 dark:bg-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={addGoal}
+            disabled={!isTargetValid}
+            className="px-6 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            Add Goal
+          </button>
+        </div>
+      </div>
+
+      {/* Goals List */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-6">
+        <h2 className="text-2xl font-bold mb-4 text-gray-800 dark:text-white">Your Goals</h2>
+        {activeGoals.length === 0 ? (
+          <p className="text-gray-500 dark:text-gray-400">No goals yet. Add one above!</p>
+        ) : (
+          <div className="space-y-4">
+            {activeGoals.map(goal => {
+              const progress = getGoalProgress(goal, habits, projects)
+              const style = STATUS_STYLES[progress.status]
+              return (
+                <div key={goal.id} className="p-4 rounded-lg bg-gray-50 dark:bg-gray-700">
+                  <div className="flex flex-wrap items-start gap-3 mb-3">
+                    <div className="flex-1">
+                      <h3 className="font-semibold text-gray-800 dark:text-white">
+                        {goal.achievedAt && <span aria-hidden="true">🏅 </span>}
+                        {goal.name}
+                      </h3>
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        {describeGoalTarget(goal.target, habits, projects)} · {formatGoalDate(goal.start)} – {formatGoalDate(goal.deadline)}
+                      </p>
+                    </div>
+                    <span className={`px-2 py-1 rounded text-xs font-semibold ${style.className}`}>{style.label}</span>
+                    <button
+                      onClick={() => setGoalArchived(goal.id, true)}
+                      aria-label={`Archive goal ${goal.name}`}
+                      className="text-sm font-medium text-gray-500 dark:text-gray-400 hover:text-blue-600"
+                    >
+                      Archive
+                    </button>
+                    {/* Achieved goals keep their badge; they can only be archived from here. */}
+                    {!goal.achievedAt && (
+                      <button
+                        onClick={() => deleteGoal(goal.id)}
+                        aria-label={`Delete goal ${goal.name}`}
+                        className="text-red-500 hover:text-red-700 font-bold"
+                      >
+                        ×
+                      </button>
+                    )}
+                  </div>
+                  <div
+                    className="h-3 rounded-full bg-gray-200 dark:bg-gray-600 overflow-hidden"
+                    role="progressbar"
+                    aria-valuemin={0}
+                    aria-valuemax={goal.count}
+                    aria-valuenow={Math.min(progress.done, goal.count)}
+                    aria-label={`${goal.name} progress`}
+                  >
+                    <div className="h-full rounded-full transition-all" style={{ width: `${progress.percent}%`, backgroundColor: style.bar }} />
+                  </div>
+                  <div className="flex justify-between mt-2 text-sm text-gray-600 dark:text-gray-300">
+                    <span>{progress.done} / {goal.count} ({progress.percent}%)</span>
+                    <span>
+                      {progress.status === 'achieved' && goal.achievedAt && `Achieved ${formatGoalDate(goal.achievedAt)}`}
+                      {progress.status === 'missed' && `Ended ${formatGoalDate(goal.deadline)}`}
+                      {progress.status === 'upcoming' && `Starts ${formatGoalDate(goal.start)}`}
+                      {(progress.status === 'on-track' || progress.status === 'behind') && (
+                        progress.projectedDate
+                          ? `At this pace: ${formatGoalDate(progress.projectedDate)}`
+                          : 'No progress yet'
+                      )}
+                    </span>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+        {archivedGoals.length > 0 && (
+          <ArchivedList
+            items={archivedGoals}
+            onRestore={(id) => setGoalArchived(id, false)}
+            onDelete={deleteGoal}
+          />
+        )}
+      </div>
+
+      <BadgeShelf goals={goals} />
+    </>
+  )
+}
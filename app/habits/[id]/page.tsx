@@ -0,0 +1,211 @@
+'use client'
+
+import Link from 'next/link'
+import { format, parseISO } from 'date-fns'
+import { Bar, BarChart, CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { Habit } from '@/lib/types'
+import { setNote } from '@/lib/habits'
+import { describeSchedule, getSchedule } from '@/lib/schedule'
+import { formatStreak, getStreakHistory, getStreakInfo } from '@/lib/streaks'
+import { getLifetimeStats, getMonthlyRates, getWeekdayBreakdown, getWeeklyTrend } from '@/lib/habitStats'
+import { useStore } from '@/lib/store'
+import { useReducedMotion } from '@/lib/useReducedMotion'
+import HabitCalendar from '@/components/HabitCalendar'
+import HabitNotes from '@/components/HabitNotes'
+import ChartDataTable from '@/components/ChartDataTable'
+
+interface HabitPageProps {
+  params: { id: string }
+}
+
+export default function HabitPage({ params }: HabitPageProps) {
+  const { habits, hydrated, commit, toggleHabitCompletion } = useStore()
+  const habit = habits.find(h => h.id === decodeURIComponent(params.id))
+  const update = (label: string, change: (habit: Habit) => Habit) => {
+    commit(label, { habits: habits.map(h => h.id === habit?.id ? change(h) : h) })
+  }
+
+  return (
+    <>
+      <Link href="/habits" className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline">
+        ← All habits
+      </Link>
+
+      {hydrated && !habit && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mt-6">
+          <p className="text-gray-600 dark:text-gray-300">
+            This habit doesn't exist on this device. Links only work where the habit was created or imported.
+          </p>
+        </div>
+      )}
+
+      {habit && <HabitDetails habit={habit} onUpdate={update} onToggle={(date) => toggleHabitCompletion(habit.id, date)} />}
+    </>
+  )
+}
+
+interface HabitDetailsProps {
+  habit: Habit
+  onUpdate: (label: string, change: (habit: Habit) => Habit) => void
+  onToggle: (date: string) => void
+}
+
+function HabitDetails({ habit, onUpdate, onToggle }: HabitDetailsProps) {
+  const lifetime = getLifetimeStats(habit)
+  const streak = getStreakInfo(habit)
+  const streakHistory = getStreakHistory(habit).reverse()
+  const weekdays = getWeekdayBreakdown(habit)
+  const monthly = getMonthlyRates(habit)
+  const weekly = getWeeklyTrend(habit)
+  const reducedMotion = useReducedMotion()
+  const bestWeekday = weekdays.reduce((best, day) => day.rate > best.rate ? day : best, weekdays[0])
+
+  const stats = [
+    { label: 'Lifetime rate', value: `${lifetime.rate}%`, detail: `${lifetime.done} of ${lifetime.expected} expected` },
+    { label: 'Check-ins', value: habit.completions.length, detail: habit.createdAt ? `since ${format(parseISO(habit.createdAt), 'MMM d, yyyy')}` : '' },
+    { label: 'Current streak', value: formatStreak(streak.current, streak.unit), detail: streak.atRisk ? 'at risk' : '' },
+    { label: 'Longest streak', value: formatStreak(streak.longest, streak.unit), detail: `${streakHistory.length} streaks in total` }
+  ]
+
+  return (
+    <>
+      <header className="mt-4 mb-8">
+        <div className="flex items-center gap-3">
+          <span className="w-5 h-5 rounded-full" style={{ backgroundColor: habit.color }} />
+          <h1 className="text-4xl font-bold text-gray-800 dark:text-white">{habit.name}</h1>
+        </div>
+        <p className="text-gray-600 dark:text-gray-300 mt-2">
+          {habit.category} · {describeSchedule(getSchedule(habit))}
+          {habit.archived && ' · archived'}
+        </p>
+      </header>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        {stats.map(stat => (
+          <div key={stat.label} className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+            <p className="text-gray-600 dark:text-gray-400 text-sm mb-1">{stat.label}</p>
+            <p className="text-3xl font-bold text-gray-800 dark:text-white">{stat.value}</p>
+            {stat.detail && <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{stat.detail}</p>}
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+          <h3 className="text-xl font-bold mb-4 text-gray-800 dark:text-white">Weekly Trend</h3>
+          <div aria-hidden="true">
+            <ResponsiveContainer width="100%" height={250}>
+              <LineChart data={weekly}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+                <YAxis domain={[0, 100]} unit="%" />
+                <Tooltip />
+                <Line type="monotone" dataKey="rate" name="Completion rate" unit="%" stroke={habit.color} strokeWidth={2} isAnimationActive={!reducedMotion} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <ChartDataTable
+            caption="Weekly completion rate"
+            rows={weekly}
+            getKey={(row) => row.date}
+            columns={[
+              { label: 'Week', value: (row) => row.date },
+              { label: 'Completion rate', value: (row) => row.rate === null ? '–' : `${row.rate}%` }
+            ]}
+          />
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+          <h3 className="text-xl font-bold mb-4 text-gray-800 dark:text-white">Monthly Rates</h3>
+          <div aria-hidden="true">
+            <ResponsiveContainer width="100%" height={250}>
+              <BarChart data={monthly}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+                <YAxis domain={[0, 100]} unit="%" />
+                <Tooltip />
+                <Bar dataKey="rate" name="Completion rate" unit="%" fill={habit.color} isAnimationActive={!reducedMotion} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <ChartDataTable
+            caption="Monthly completion rate"
+            rows={monthly}
+            getKey={(row) => row.date}
+            columns={[
+              { label: 'Month', value: (row) => row.date },
+              { label: 'Completion rate', value: (row) => row.rate === null ? '–' : `${row.rate}%` }
+            ]}
+          />
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+          <h3 className="text-xl font-bold mb-1 text-gray-800 dark:text-white">By Weekday</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            {bestWeekday.completions > 0 ? `Best day: ${bestWeekday.day}` : 'No check-ins yet'}
+          </p>
+          <div aria-hidden="true">
+            <ResponsiveContainer width="100%" height={220}>
+              <BarChart data={weekdays}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="day" />
+                <YAxis domain={[0, 100]} unit="%" />
+                <Tooltip />
+                <Bar dataKey="rate" name="Days done" unit="%" fill={habit.color} isAnimationActive={!reducedMotion} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <ChartDataTable
+            caption="Days done by weekday"
+            rows={weekdays}
+            getKey={(row) => row.day}
+            columns={[
+              { label: 'Weekday', value: (row) => row.day },
+              { label: 'Days done', value: (row) => `${row.rate}%` }
+            ]}
+          />
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+          <h3 className="text-xl font-bold mb-4 text-gray-800 dark:text-white">Streak History</h3>
+          {streakHistory.length === 0 ? (
+            <p className="text-gray-500 dark:text-gray-400">No streaks yet.</p>
+          ) : (
+            <ul className="space-y-2 max-h-64 overflow-y-auto">
+              {streakHistory.map(run => (
+                <li key={run.start} className="flex items-center gap-3">
+                  <span className="w-48 text-sm text-gray-600 dark:text-gray-300">
+                    {format(parseISO(run.start), 'MMM d, yyyy')}
+                    {run.end !== run.start && ` – ${format(parseISO(run.end), 'MMM d')}`}
+                  </span>
+                  <div className="flex-1 h-3 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                      className="h-full rounded-full"
+                      style={{ width: `${(run.length / Math.max(1, streak.longest)) * 100}%`, backgroundColor: habit.color }}
+                    />
+                  </div>
+                  <span className="w-24 text-right text-sm font-semibold text-gray-700 dark:text-gray-300">
+                    {formatStreak(run.length, streak.unit)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div>
+          <HabitCalendar
+            habit={habit}
+            onToggle={onToggle}
+          />
+        </div>
+        <div className="lg:col-span-2 bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+          <h3 className="text-xl font-bold mb-4 text-gray-800 dark:text-white">Check-ins & Notes</h3>
+          <HabitNotes habit={habit} onChange={(date, note) => onUpdate('Edit note', h => setNote(h, date, note))} />
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,363 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { format, parseISO } from 'date-fns'
+import { Habit, HabitKind, HabitSchedule } from '@/lib/types'
+import { todayKey } from '@/lib/dates'
+import { nextColor } from '@/lib/colors'
+import { getCategoryInfos, resolveCategoryName } from '@/lib/categories'
+import { formatValue, getDailyTarget, getDayValue, getValueInRange, isMeasurable } from '@/lib/habits'
+import { formatStreak, getStreakInfo } from '@/lib/streaks'
+import { DEFAULT_SCHEDULE, describeSchedule, getActivePause, getProgress, getSchedule } from '@/lib/schedule'
+import { PREVIOUS_LABELS, getPeriodLabel } from '@/lib/ranges'
+import { useStore } from '@/lib/store'
+import { useTimeRange } from '@/lib/useTimeRange'
+import { useCategoryFilter } from '@/lib/useCategoryFilter'
+import HabitCalendar from '@/components/HabitCalendar'
+import ScheduleInput from '@/components/ScheduleInput'
+import HabitEditor from '@/components/HabitEditor'
+import ArchivedList from '@/components/ArchivedList'
+import Delta from '@/components/Delta'
+import TimeRangeBar from '@/components/TimeRangeBar'
+import ReminderSettings from '@/components/ReminderSettings'
+import CategoryPicker from '@/components/CategoryPicker'
+import CategoryManager from '@/components/CategoryManager'
+
+export default function HabitsPage() {
+  const { habits, projects, categories, commit, toggleHabitCompletion, logHabitValue } = useStore()
+  const { timeRange, interval, previousInterval } = useTimeRange()
+  const { category, filterHabits } = useCategoryFilter()
+  const [newHabitName, setNewHabitName] = useState('')
+  const [newHabitCategory, setNewHabitCategory] = useState('')
+  const [newHabitSchedule, setNewHabitSchedule] = useState<HabitSchedule>(DEFAULT_SCHEDULE)
+  const [newHabitKind, setNewHabitKind] = useState<HabitKind>('check')
+  const [newHabitUnit, setNewHabitUnit] = useState('')
+  const [newHabitTarget, setNewHabitTarget] = useState('1')
+  const [calendarHabitId, setCalendarHabitId] = useState<string | null>(null)
+  const [editingHabitId, setEditingHabitId] = useState<string | null>(null)
+  const [announcement, setAnnouncement] = useState('')
+
+  const categoryInfos = getCategoryInfos(categories, habits)
+
+  const addHabit = () => {
+    if (newHabitName.trim()) {
+      const newHabit: Habit = {
+        id: Date.now().toString(),
+        name: newHabitName,
+        category: resolveCategoryName(newHabitCategory, categoryInfos.map(c => c.name)),
+        color: nextColor(habits.filter(h => !h.archived).map(h => h.color)),
+        completions: [],
+        createdAt: todayKey(),
+        schedule: newHabitSchedule,
+        kind: newHabitKind,
+        ...(newHabitKind === 'measure' && {
+          unit: newHabitUnit.trim() || undefined,
+          dailyTarget: Math.max(1, parseFloat(newHabitTarget) || 1),
+          values: {}
+        })
+      }
+      commit(`Add "${newHabit.name}"`, { habits: [...habits, newHabit] })
+      setNewHabitName('')
+      setNewHabitCategory('')
+      setNewHabitSchedule(DEFAULT_SCHEDULE)
+      setNewHabitKind('check')
+      setNewHabitUnit('')
+      setNewHabitTarget('1')
+    }
+  }
+
+  const updateHabit = (updated: Habit) => {
+    commit(`Edit "${updated.name}"`, { habits: habits.map(h => h.id === updated.id ? updated : h) })
+    setEditingHabitId(null)
+  }
+
+  const setHabitArchived = (habitId: string, archived: boolean) => {
+    const habit = habits.find(h => h.id === habitId)
+    commit(`${archived ? 'Archived' : 'Restored'} "${habit?.name}"`, {
+      habits: habits.map(h => h.id === habitId ? { ...h, archived } : h)
+    }, { undoToast: archived })
+  }
+
+  const deleteHabit = (habitId: string) => {
+    const habit = habits.find(h => h.id === habitId)
+    if (!habit || !window.confirm(`Delete "${habit.name}" and its history?`)) return
+    commit(`Deleted "${habit.name}"`, { habits: habits.filter(h => h.id !== habitId) }, { undoToast: true })
+  }
+
+  // Archived habits leave the daily list but stay in the stats.
+  const shownHabits = filterHabits(habits)
+  const activeHabits = shownHabits.filter(h => !h.archived)
+  const archivedHabits = shownHabits.filter(h => h.archived)
+  const periodLabel = getPeriodLabel(timeRange)
+  const previousLabel = PREVIOUS_LABELS[timeRange]
+  const today = todayKey()
+
+  // 1–9 check off the first nine habits in the list.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return
+      if (e.metaKey || e.ctrlKey || e.altKey || !/^[1-9]$/.test(e.key)) return
+      const habit = activeHabits[Number(e.key) - 1]
+      if (!habit) return
+      e.preventDefault()
+      toggleHabitCompletion(habit.id)
+      setAnnouncement(`${habit.name} ${habit.completions.includes(today) ? 'unchecked' : 'checked off'}`)
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  })
+
+  return (
+    <>
+      <TimeRangeBar />
+
+      {/* Add Habit Form */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-6">
+        <h2 className="text-2xl font-bold mb-4 text-gray-800 dark:text-white">Add New Habit</h2>
+        <div className="flex flex-col md:flex-row gap-4">
+          <input
+            type="text"
+            placeholder="Habit name (e.g., Exercise, Read, Meditate)"
+            aria-label="Habit name"
+            value={newHabitName}
+            onChange={(e) => setNewHabitName(e.target.value)}
+            className="flex-1 px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+            onKeyPress={(e) => e.key === 'Enter' && addHabit()}
+          />
+          <CategoryPicker
+            value={newHabitCategory}
+            onChange={setNewHabitCategory}
+            categories={categoryInfos}
+            onEnter={addHabit}
+            placeholder="Category (e.g., Health, Learning)"
+            className="flex-1"
+          />
+          <button
+            onClick={addHabit}
+            className="px-6 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+          >
+            Add Habit
+          </button>
+        </div>
+        <div className="mt-4 flex flex-wrap items-center gap-3">
+          <ScheduleInput value={newHabitSchedule} onChange={setNewHabitSchedule} />
+          <select
+            value={newHabitKind}
+            onChange={(e) => setNewHabitKind(e.target.value as HabitKind)}
+            aria-label="Habit kind"
+            className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+          >
+            <option value="check">Check off</option>
+            <option value="measure">Measurable</option>
+          </select>
+          {newHabitKind === 'measure' && (
+            <>
+              <input
+                type="number"
+                min={1}
+                placeholder="Daily goal"
+                aria-label="Daily goal"
+                value={newHabitTarget}
+                onChange={(e) => setNewHabitTarget(e.target.value)}
+                className="w-28 px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+              <input
+                type="text"
+                placeholder="Unit (e.g., glasses, minutes)"
+                aria-label="Unit"
+                value={newHabitUnit}
+                onChange={(e) => setNewHabitUnit(e.target.value)}
+                className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Habits List */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-6">
+        <h2 className="text-2xl font-bold mb-1 text-gray-800 dark:text-white">Today's Habits</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          Press <kbd className="font-mono">1</kbd>–<kbd className="font-mono">9</kbd> to check off a habit, or <kbd className="font-mono">Ctrl+K</kbd> for all commands.
+        </p>
+        <div aria-live="polite" className="sr-only">{announcement}</div>
+        {activeHabits.length === 0 ? (
+          <p className="text-gray-500 dark:text-gray-400">
+            {category ? `No habits in ${category}.` : 'No habits yet. Add one above!'}
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {activeHabits.map((habit, index) => {
+              const streak = getStreakInfo(habit)
+              const pause = getActivePause(habit)
+              const progress = getProgress(habit, interval)
+              const previousProgress = getProgress(habit, previousInterval)
+              const linkedProject = projects.find(p => p.id === habit.projectId)
+              return (
+                <div key={habit.id}>
+                  <div
+                    className="flex items-center gap-4 p-4 rounded-lg bg-gray-50 dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
+                  >
+                    <button
+                      onClick={() => toggleHabitCompletion(habit.id)}
+                      aria-label={`${habit.name} done today`}
+                      aria-pressed={habit.completions.includes(today)}
+                      aria-keyshortcuts={index < 9 ? String(index + 1) : undefined}
+                      className={`w-8 h-8 rounded-full border-2 flex items-center justify-center transition-all ${
+                        habit.completions.includes(today)
+                          ? 'border-green-500 bg-green-500'
+                          : 'border-gray-300 dark:border-gray-500'
+                      }`}
+                    >
+                      {habit.completions.includes(today) && (
+                        <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+                        </svg>
+                      )}
+                    </button>
+                    <div className="flex-1">
+                      <h3 className="font-semibold text-gray-800 dark:text-white">
+                        <Link href={`/habits/${habit.id}`} className="hover:text-blue-600 hover:underline">{habit.name}</Link>
+                      </h3>
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        {habit.category} · {describeSchedule(getSchedule(habit))}
+                        {linkedProject && ` · for ${linkedProject.name}`}
+                        {habit.reminders && habit.reminders.length > 0 && ` · 🔔 ${habit.reminders.join(', ')}`}
+                        {pause && (
+                          <span className="ml-2 px-1.5 py-0.5 rounded bg-sky-100 text-sky-700 dark:bg-sky-900/40 dark:text-sky-300 text-xs font-semibold">
+                            paused until {format(parseISO(pause.end), 'MMM d')}
+                          </span>
+                        )}
+                      </p>
+                    </div>
+                    {isMeasurable(habit) && (
+                      <div className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+                        <button
+                          onClick={() => logHabitValue(habit.id, getDayValue(habit, today) - 1)}
+                          aria-label={`Decrease ${habit.name}`}
+                          className="w-7 h-7 rounded bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 font-bold"
+                        >
+                          −
+                        </button>
+                        <input
+                          type="number"
+                          min={0}
+                          value={getDayValue(habit, today)}
+                          onChange={(e) => logHabitValue(habit.id, parseFloat(e.target.value) || 0)}
+                          aria-label={`${habit.name} today`}
+                          className="w-16 px-2 py-1 rounded border border-gray-300 dark:border-gray-500 dark:bg-gray-800 text-center"
+                        />
+                        <button
+                          onClick={() => logHabitValue(habit.id, getDayValue(habit, today) + 1)}
+                          aria-label={`Increase ${habit.name}`}
+                          className="w-7 h-7 rounded bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 font-bold"
+                        >
+                          +
+                        </button>
+                        <span className="ml-1 whitespace-nowrap">/ {formatValue(habit, getDailyTarget(habit))}</span>
+                      </div>
+                    )}
+                    <div
+                      className="text-right"
+                      title={streak.currentStart ? `Since ${format(parseISO(streak.currentStart), 'MMM d, yyyy')}` : undefined}
+                    >
+                      <p className="text-sm font-semibold text-orange-600 dark:text-orange-400">
+                        🔥 {formatStreak(streak.current, streak.unit)}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        best {streak.longest}
+                        {streak.atRisk && (
+                          <span className="ml-2 px-1.5 py-0.5 rounded bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300 font-semibold">
+                            at risk
+                          </span>
+                        )}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                        {progress.done} / {progress.target}
+                      </p>
+                      {isMeasurable(habit) && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {formatValue(habit, getValueInRange(habit, interval))}
+                        </p>
+                      )}
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{periodLabel}</p>
+                      <Delta current={progress.done} previous={previousProgress.done} label={previousLabel} />
+                    </div>
+                    <button
+                      onClick={() => setCalendarHabitId(calendarHabitId === habit.id ? null : habit.id)}
+                      aria-expanded={calendarHabitId === habit.id}
+                      aria-label={`History of ${habit.name}`}
+                      className={`text-sm font-medium ${
+                        calendarHabitId === habit.id
+                          ? 'text-blue-600 dark:text-blue-400'
+                          : 'text-gray-500 dark:text-gray-400 hover:text-blue-600'
+                      }`}
+                    >
+                      History
+                    </button>
+                    <button
+                      onClick={() => setEditingHabitId(editingHabitId === habit.id ? null : habit.id)}
+                      aria-expanded={editingHabitId === habit.id}
+                      aria-label={`Edit ${habit.name}`}
+                      className={`text-sm font-medium ${
+                        editingHabitId === habit.id
+                          ? 'text-blue-600 dark:text-blue-400'
+                          : 'text-gray-500 dark:text-gray-400 hover:text-blue-600'
+                      }`}
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => setHabitArchived(habit.id, true)}
+                      aria-label={`Archive ${habit.name}`}
+                      className="text-sm font-medium text-gray-500 dark:text-gray-400 hover:text-blue-600"
+                    >
+                      Archive
+                    </button>
+                    <button
+                      onClick={() => deleteHabit(habit.id)}
+                      aria-label={`Delete habit ${habit.name}`}
+                      className="text-red-500 hover:text-red-700 font-bold"
+                    >
+                      ×
+                    </button>
+                  </div>
+                  {editingHabitId === habit.id && (
+                    <HabitEditor
+                      habit={habit}
+                      categories={categoryInfos}
+                      projects={projects}
+                      onSave={updateHabit}
+                      onCancel={() => setEditingHabitId(null)}
+                    />
+                  )}
+                  {calendarHabitId === habit.id && (
+                    <HabitCalendar
+                      habit={habit}
+                      onToggle={(date) => toggleHabitCompletion(habit.id, date)}
+                    />
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+        {archivedHabits.length > 0 && (
+          <ArchivedList
+            items={archivedHabits}
+            onRestore={(id) => setHabitArchived(id, false)}
+            onDelete={deleteHabit}
+          />
+        )}
+      </div>
+
+      <CategoryManager />
+
+      <ReminderSettings />
+    </>
+  )
+}
@@ -1,5 +1,8 @@
-import type { Metadata } from 'next'
+import type { Metadata, Viewport } from 'next'
 import { Inter } from 'next/font/google'
+import { Suspense } from 'react'
+import { StoreProvider } from '@/lib/store'
+import AppShell from '@/components/AppShell'
 import './globals.css'
 
 const inter = Inter({ subsets: ['latin'] })
@@ -7,6 +10,29 @@ const inter = Inter({ subsets: ['latin'] })
 export const metadata: Metadata = {
   title: 'Habit & Project Tracker',
   description: 'Track your habits and projects with beautiful statistics',
+  applicationName: 'Habit & Project Tracker',
+  appleWebApp: {
+    capable: true,
+    title: 'Tracker',
+    statusBarStyle: 'default'
+  },
+  icons: {
+    icon: '/icons/icon-192.png',
+    apple: '/icons/apple-touch-icon.png'
+  },
+  formatDetection: {
+    telephone: false
+  }
+}
+
+export const viewport: Viewport = {
+  width: 'device-width',
+  initialScale: 1,
+  viewportFit: 'cover',
+  themeColor: [
+    { media: '(prefers-color-scheme: light)', color: '#eff6ff' },
+    { media: '(prefers-color-scheme: dark)', color: '#111827' }
+  ]
 }
 
 export default function RootLayout({
@@ -16,7 +42,14 @@ export default function RootLayout({
 }) {
   return (
     <html lang="en">
-      <body className={inter.className}>{children}</body>
+      <body className={inter.className}>
+        <StoreProvider>
+          {/* The time range is read from the URL query, which needs a Suspense boundary. */}
+          <Suspense>
+            <AppShell>{children}</AppShell>
+          </Suspense>
+        </StoreProvider>
+      </body>
     </html>
   )
 }
@@ -0,0 +1,19 @@
+import type { MetadataRoute } from 'next'
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'Habit & Project Tracker',
+    short_name: 'Tracker',
+    description: 'Track your habits and projects with beautiful statistics',
+    start_url: '/habits',
+    scope: '/',
+    display: 'standalone',
+    background_color: '#eff6ff',
+    theme_color: '#eff6ff',
+    icons: [
+      { src: '/icons/icon-192.png', sizes: '192x192', type: 'image/png', purpose: 'any' },
+      { src: '/icons/icon-512.png', sizes: '512x512', type: 'image/png', purpose: 'any' },
+      { src: '/icons/icon-maskable-512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' }
+    ]
+  }
+}
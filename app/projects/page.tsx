@@ -0,0 +1,447 @@
+'use client'
+
+import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { BarChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { Milestone, Project, ProjectStatus, Task, TimeEntry } from '@/lib/types'
+import { PROJECT_STATUS_LABELS, getHabitConsistency, getLinkedHabits, isAtRisk, isOverdue, withProgress, withStatus, withTasks } from '@/lib/projects'
+import { placeInColumn } from '@/lib/board'
+import { getProjectStats } from '@/lib/stats'
+import { getTimeByProject, startTimer, stopTimers } from '@/lib/timeTracking'
+import { useStore } from '@/lib/store'
+import { useReducedMotion } from '@/lib/useReducedMotion'
+import ProjectTasks from '@/components/ProjectTasks'
+import ProjectEditor from '@/components/ProjectEditor'
+import ProjectMilestones from '@/components/ProjectMilestones'
+import ProjectTimeline from '@/components/ProjectTimeline'
+import ArchivedList from '@/components/ArchivedList'
+import ProjectBoard, { PROJECT_STATUS_COLORS } from '@/components/ProjectBoard'
+import ProjectTime from '@/components/ProjectTime'
+import ProjectHabits from '@/components/ProjectHabits'
+import Timesheet from '@/components/Timesheet'
+import ChartDataTable from '@/components/ChartDataTable'
+
+export default function ProjectsPage() {
+  const { habits, projects, commit, toggleHabitCompletion } = useStore()
+  const [newProjectName, setNewProjectName] = useState('')
+  const [newProjectDesc, setNewProjectDesc] = useState('')
+  const [newProjectDue, setNewProjectDue] = useState('')
+  const [editingProjectId, setEditingProjectId] = useState<string | null>(null)
+  const [view, setView] = useState<'list' | 'board'>('list')
+  const reducedMotion = useReducedMotion()
+
+  const addProject = () => {
+    if (newProjectName.trim()) {
+      const newProject: Project = {
+        id: Date.now().toString(),
+        name: newProjectName,
+        description: newProjectDesc,
+        status: 'not-started',
+        progress: 0,
+        startDate: new Date().toISOString(),
+        tasks: [],
+        dueDate: newProjectDue || undefined,
+        milestones: []
+      }
+      commit(`Add "${newProject.name}"`, { projects: [...projects, newProject] })
+      setNewProjectName('')
+      setNewProjectDesc('')
+      setNewProjectDue('')
+    }
+  }
+  const updateProjectProgress = (projectId: string, progress: number) => {
+    commit('Change progress', {
+      projects: projects.map(project =>
+        project.id === projectId && project.tasks.length === 0 ? withProgress(project, progress) : project
+      )
+    }, { coalesceKey: `progress-${projectId}` })
+  }
+  const updateProjectTasks = (projectId: string, tasks: Task[]) => {
+    commit('Edit tasks', {
+      projects: projects.map(project => project.id === projectId ? withTasks(project, tasks) : project)
+    })
+  }
+  const moveProject = (projectId: string, status: ProjectStatus, index: number) => {
+    const project = projects.find(p => p.id === projectId)
+    if (!project) return
+    commit(`Moved "${project.name}" to ${PROJECT_STATUS_LABELS[status]}`, {
+      // Archived projects aren't on the board, so they don't count towards the index.
+      projects: placeInColumn(projects, withStatus(project, status), index, p => p.archived ? 'archived' : p.status)
+    }, { undoToast: true })
+  }
+  const updateProjectMilestones = (projectId: string, milestones: Milestone[]) => {
+    commit('Edit milestones', {
+      projects: projects.map(project => project.id === projectId ? { ...project, milestones } : project)
+    })
+  }
+  const startProjectTimer = (projectId: string, taskId?: string) => {
+    commit('Start timer', { projects: startTimer(projects, projectId, taskId) })
+  }
+  const stopProjectTimer = () => {
+    commit('Stop timer', { projects: stopTimers(projects) })
+  }
+  const updateTimeEntries = (projectId: string, timeEntries: TimeEntry[]) => {
+    commit('Edit time entries', {
+      projects: projects.map(project => project.id === projectId ? { ...project, timeEntries } : project)
+    })
+  }
+  const updateProject = (updated: Project) => {
+    commit(`Edit "${updated.name}"`, { projects: projects.map(p => p.id === updated.id ? updated : p) })
+    setEditingProjectId(null)
+  }
+  const setProjectArchived = (projectId: string, archived: boolean) => {
+    const project = projects.find(p => p.id === projectId)
+    commit(`${archived ? 'Archived' : 'Restored'} "${project?.name}"`, {
+      projects: projects.map(p => p.id === projectId ? { ...p, archived } : p)
+    }, { undoToast: archived })
+  }
+  const deleteProject = (projectId: string) => {
+    const project = projects.find(p => p.id === projectId)
+    if (!project || !window.confirm(`Delete "${project.name}" with its tasks and time entries?`)) return
+    commit(`Deleted "${project.name}"`, {
+      projects: projects.filter(p => p.id !== projectId),
+      habits: habits.map(h => h.projectId === projectId ? { ...h, projectId: undefined } : h)
+    }, { undoToast: true })
+  }
+  const projectStats = getProjectStats(projects, habits)
+  // Archived projects leave the list and timeline but stay in the charts.
+  const activeProjects = projects.filter(p => !p.archived)
+  const archivedProjects = projects.filter(p => p.archived)
+  const timeByProject = getTimeByProject(projects)
+  const statusData = [
+    { name: PROJECT_STATUS_LABELS['not-started'], value: projectStats.notStarted, color: PROJECT_STATUS_COLORS['not-started'] },
+    { name: PROJECT_STATUS_LABELS['in-progress'], value: projectStats.inProgress, color: PROJECT_STATUS_COLORS['in-progress'] },
+    { name: PROJECT_STATUS_LABELS.completed, value: projectStats.completed, color: PROJECT_STATUS_COLORS.completed }
+  ].filter(d => d.value > 0)
+  const progressData = projects.map(p => ({ id: p.id, name: p.name, progress: p.progress }))
+
+  return (
+    <>
+      {/* Add Project Form */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-6">
+        <h2 className="text-2xl font-bold mb-4 text-gray-800 dark:text-white">Add New Project</h2>
+        <div className="flex flex-col gap-4">
+          <input
+            type="text"
+            placeholder="Project name"
+            aria-label="Project name"
+            value={newProjectName}
+            onChange={(e) => setNewProjectName(e.target.value)}
+            className="px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+            onKeyPress={(e) => e.key === 'Enter' && addProject()}
+          />
+          <input
+            type="text"
+            placeholder="Description (optional)"
+            aria-label="Description"
+            value={newProjectDesc}
+            onChange={(e) => setNewProjectDesc(e.target.value)}
+            className="px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+            onKeyPress={(e) => e.key === 'Enter' && addProject()}
+          />
+          <label className="flex items-center gap-3 text-gray-600 dark:text-gray-300">
+            Due date (optional)
+            <input
+              type="date"
+              value={newProjectDue}
+              onChange={(e) => setNewProjectDue(e.target.value)}
+              className="px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+          </label>
+          <button
+            onClick={addProject}
+            className="px-6 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+          >
+            Add Project
+          </button>
+        </div>
+      </div>
+
+      {/* Projects List */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold text-gray-800 dark:text-white">Your Projects</h2>
+          {activeProjects.length > 0 && (
+            <div className="flex gap-1 text-sm">
+              {(['list', 'board'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  aria-pressed={view === option}
+                  className={`px-3 py-1 rounded-lg font-medium capitalize ${
+                    view === option ? 'bg-indigo-600 text-white' : 'bg-gray-100 dark:bg-gray-700 dark:text-gray-300 hover:bg-gray-200'
+                  }`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        {activeProjects.length === 0 ? (
+          <p className="text-gray-500 dark:text-gray-400">No projects yet. Add one above!</p>
+        ) : view === 'board' ? (
+          <ProjectBoard projects={activeProjects} habits={habits} onMove={moveProject} onTasksChange={updateProjectTasks} />
+        ) : (
+          <div className="space-y-4">
+            {activeProjects.map(project => (
+              <div
+                key={project.id}
+                className="p-4 rounded-lg bg-gray-50 dark:bg-gray-700 border-l-4"
+                style={{
+                  borderLeftColor:
+                    project.status === 'completed' ? '#10b981' :
+                    project.status === 'in-progress' ? '#f59e0b' : '#6b7280'
+                }}
+              >
+                <div className="flex justify-between items-start mb-3">
+                  <div className="flex-1">
+                    {editingProjectId === project.id ? (
+                      <ProjectEditor
+                        project={project}
+                        onSave={updateProject}
+                        onCancel={() => setEditingProjectId(null)}
+                      />
+                    ) : (
+                      <>
+                        <h3 className="font-bold text-lg text-gray-800 dark:text-white">{project.name}</h3>
+                        {project.description && (
+                          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{project.description}</p>
+                        )}
+                      </>
+                    )}
+                    <span className={`inline-block mt-2 px-3 py-1 rounded-full text-xs font-semibold ${
+                      project.status === 'completed' ? 'bg-green-100 text-green-800' :
+                      project.status === 'in-progress' ? 'bg-yellow-100 text-yellow-800' :
+                      'bg-gray-100 text-gray-800'
+                    }`}>
+                      {project.status === 'not-started' ? 'Not Started' :
+                       project.status === 'in-progress' ? 'In Progress' : 'Completed'}
+                    </span>
+                    {isOverdue(project) ? (
+                      <span className="inline-block mt-2 ml-2 px-3 py-1 rounded-full text-xs font-semibold bg-red-100 text-red-800">
+                        Overdue
+                      </span>
+                    ) : isAtRisk(project, habits) && (
+                      <span className="inline-block mt-2 ml-2 px-3 py-1 rounded-full text-xs font-semibold bg-orange-100 text-orange-800">
+                        At Risk
+                      </span>
+                    )}
+                    {project.dueDate && (
+                      <span className="inline-block mt-2 ml-2 text-xs text-gray-500 dark:text-gray-400">
+                        Due {format(parseISO(project.dueDate), 'MMM d, yyyy')}
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-3 ml-4">
+                    <button
+                      onClick={() => setEditingProjectId(project.id)}
+                      aria-label={`Edit ${project.name}`}
+                      className="text-sm font-medium text-gray-500 dark:text-gray-400 hover:text-blue-600"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => setProjectArchived(project.id, true)}
+                      aria-label={`Archive ${project.name}`}
+                      className="text-sm font-medium text-gray-500 dark:text-gray-400 hover:text-blue-600"
+                    >
+                      Archive
+                    </button>
+                    <button
+                      onClick={() => deleteProject(project.id)}
+                      aria-label={`Delete project ${project.name}`}
+                      className="text-red-500 hover:text-red-700 font-bold text-xl"
+                    >
+                      ×
+                    </button>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <div className="flex items-center gap-3">
+                    {project.tasks.length === 0 ? (
+                      <input
+                        type="range"
+                        min="0"
+                        max="100"
+                        value={project.progress}
+                        onChange={(e) => updateProjectProgress(project.id, parseInt(e.target.value))}
+                        aria-label={`${project.name} progress`}
+                        aria-valuetext={`${project.progress}%`}
+                        className="flex-1"
+                      />
+                    ) : (
+                      <span className="flex-1 text-xs text-gray-500 dark:text-gray-400">Progress from tasks</span>
+                    )}
+                    <span className="text-sm font-semibold text-gray-700 dark:text-gray-300 w-12">
+                      {project.progress}%
+                    </span>
+                  </div>
+                  <div className="w-full bg-gray-200 dark:bg-gray-600 rounded-full h-2">
+                    <div
+                      className="bg-blue-600 h-2 rounded-full transition-all"
+                      style={{ width: `${project.progress}%` }}
+                    />
+                  </div>
+                </div>
+                <ProjectTasks
+                  tasks={project.tasks}
+                  onChange={(tasks) => updateProjectTasks(project.id, tasks)}
+                />
+                <ProjectHabits
+                  habits={getLinkedHabits(project, habits)}
+                  consistency={getHabitConsistency(project, habits)}
+                  onToggle={toggleHabitCompletion}
+                />
+                <ProjectMilestones
+                  milestones={project.milestones ?? []}
+                  onChange={(milestones) => updateProjectMilestones(project.id, milestones)}
+                />
+                <ProjectTime
+                  project={project}
+                  onStart={(taskId) => startProjectTimer(project.id, taskId)}
+                  onStop={stopProjectTimer}
+                  onChange={(timeEntries) => updateTimeEntries(project.id, timeEntries)}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+        {archivedProjects.length > 0 && (
+          <ArchivedList
+            items={archivedProjects}
+            onRestore={(id) => setProjectArchived(id, false)}
+            onDelete={deleteProject}
+          />
+        )}
+      </div>
+
+      {projects.length > 0 && <Timesheet projects={projects} />}
+
+      {/* Project Statistics */}
+      {projects.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-6 mb-6">
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+            <h3 className="text-lg font-semibold mb-2 text-gray-600 dark:text-gray-400">Total Projects</h3>
+            <p className="text-4xl font-bold text-blue-600 dark:text-blue-400">{projectStats.total}</p>
+          </div>
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+            <h3 className="text-lg font-semibold mb-2 text-gray-600 dark:text-gray-400">In Progress</h3>
+            <p className="text-4xl font-bold text-yellow-600 dark:text-yellow-400">{projectStats.inProgress}</p>
+          </div>
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+            <h3 className="text-lg font-semibold mb-2 text-gray-600 dark:text-gray-400">Completed</h3>
+            <p className="text-4xl font-bold text-green-600 dark:text-green-400">{projectStats.completed}</p>
+          </div>
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+            <h3 className="text-lg font-semibold mb-2 text-gray-600 dark:text-gray-400">Overdue</h3>
+            <p className="text-4xl font-bold text-red-600 dark:text-red-400">{projectStats.overdue}</p>
+          </div>
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+            <h3 className="text-lg font-semibold mb-2 text-gray-600 dark:text-gray-400">At Risk</h3>
+            <p className="text-4xl font-bold text-orange-600 dark:text-orange-400">{projectStats.atRisk}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Project Charts */}
+      {projects.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+            <h3 className="text-xl font-bold mb-4 text-gray-800 dark:text-white">Project Status</h3>
+            <div aria-hidden="true">
+              <ResponsiveContainer width="100%" height={250}>
+                <PieChart>
+                  <Pie
+                    data={statusData}
+                    cx="50%"
+                    cy="50%"
+                    labelLine={false}
+                    label={({ name, value }) => `${name}: ${value}`}
+                    outerRadius={80}
+                    fill="#8884d8"
+                    dataKey="value"
+                    isAnimationActive={!reducedMotion}
+                  >
+                    {statusData.map(entry => (
+                      <Cell key={entry.name} fill={entry.color} />
+                    ))}
+                  </Pie>
+                  <Tooltip />
+                </PieChart>
+              </ResponsiveContainer>
+            </div>
+            <ChartDataTable
+              caption="Projects by status"
+              rows={statusData}
+              getKey={(entry) => entry.name}
+              columns={[
+                { label: 'Status', value: (entry) => entry.name },
+                { label: 'Projects', value: (entry) => entry.value }
+              ]}
+            />
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+            <h3 className="text-xl font-bold mb-4 text-gray-800 dark:text-white">Progress Overview</h3>
+            <div aria-hidden="true">
+              <ResponsiveContainer width="100%" height={250}>
+                <BarChart data={progressData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" tick={{ fontSize: 12 }} />
+                  <YAxis domain={[0, 100]} />
+                  <Tooltip />
+                  <Bar dataKey="progress" fill="#0ea5e9" isAnimationActive={!reducedMotion} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <ChartDataTable
+              caption="Progress by project"
+              rows={progressData}
+              getKey={(row) => row.id}
+              columns={[
+                { label: 'Project', value: (row) => row.name },
+                { label: 'Progress', value: (row) => `${row.progress}%` }
+              ]}
+            />
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+            <h3 className="text-xl font-bold mb-4 text-gray-800 dark:text-white">Time by Project</h3>
+            {timeByProject.length === 0 ? (
+              <p className="text-gray-500 dark:text-gray-400">Start a timer or log time to see where it goes.</p>
+            ) : (
+              <>
+                <div aria-hidden="true">
+                  <ResponsiveContainer width="100%" height={250}>
+                    <BarChart data={timeByProject}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="name" tick={{ fontSize: 12 }} />
+                      <YAxis unit="h" />
+                      <Tooltip formatter={(value) => [`${value}h`, 'Time']} />
+                      <Bar dataKey="hours" fill="#8b5cf6" isAnimationActive={!reducedMotion} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+                <ChartDataTable
+                  caption="Time by project"
+                  rows={timeByProject}
+                  getKey={(row) => row.id}
+                  columns={[
+                    { label: 'Project', value: (row) => row.name },
+                    { label: 'Hours', value: (row) => row.hours }
+                  ]}
+                />
+              </>
+            )}
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 lg:col-span-3">
+            <h3 className="text-xl font-bold mb-4 text-gray-800 dark:text-white">Timeline</h3>
+            <ProjectTimeline projects={activeProjects} />
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,165 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { PREVIOUS_LABELS } from '@/lib/ranges'
+import { PROJECT_STATUS_LABELS } from '@/lib/projects'
+import { HabitReportRow, PROJECT_CHANGE_LABELS, formatReportPeriod, formatStreakChange, getReport, reportToMarkdown } from '@/lib/report'
+import { downloadFile } from '@/lib/download'
+import { useStore } from '@/lib/store'
+import { useTimeRange } from '@/lib/useTimeRange'
+import { useCategoryFilter } from '@/lib/useCategoryFilter'
+import Delta from '@/components/Delta'
+import TimeRangeBar from '@/components/TimeRangeBar'
+
+const sectionClass = 'bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-6 print:shadow-none print:p-0 print:break-inside-avoid'
+const headingClass = 'text-xl font-bold mb-4 text-gray-800 dark:text-white'
+const actionClass = 'px-4 py-2 rounded-lg font-medium bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50'
+
+export default function ReviewPage() {
+  const { habits: allHabits, projects, categories } = useStore()
+  const { timeRange, interval, previousInterval } = useTimeRange()
+  const { category, filterHabits } = useCategoryFilter()
+  const [copyStatus, setCopyStatus] = useState<'copied' | 'failed' | null>(null)
+
+  const report = getReport(filterHabits(allHabits), projects, categories, interval, previousInterval)
+  const previousLabel = PREVIOUS_LABELS[timeRange]
+
+  const downloadMarkdown = () => {
+    downloadFile(`review-${format(report.start, 'yyyy-MM-dd')}.md`, reportToMarkdown(report, category ?? undefined), 'text/markdown')
+  }
+
+  // The clipboard API is missing on plain-HTTP origins and rejects when permission is denied.
+  const copyMarkdown = async () => {
+    try {
+      if (!navigator.clipboard) throw new Error('Clipboard unavailable')
+      await navigator.clipboard.writeText(reportToMarkdown(report, category ?? undefined))
+      setCopyStatus('copied')
+    } catch (e) {
+      console.error('Failed to copy report', e)
+      setCopyStatus('failed')
+    }
+    setTimeout(() => setCopyStatus(null), 2000)
+  }
+
+  const highlight = (rows: HabitReportRow[]) => rows.map(row => `${row.name} (${row.rate}%)`).join(', ')
+
+  return (
+    <>
+      <div className="print:hidden">
+        <TimeRangeBar>
+          <div className="flex gap-2 ml-auto">
+            <button onClick={() => window.print()} className={actionClass}>Print</button>
+            <button onClick={downloadMarkdown} className={actionClass}>Download Markdown</button>
+            <button onClick={copyMarkdown} className={actionClass}>{copyStatus === 'copied' ? 'Copied!' : copyStatus === 'failed' ? 'Copy failed' : 'Copy Markdown'}</button>
+          </div>
+        </TimeRangeBar>
+      </div>
+
+      <div className={sectionClass}>
+        <h2 className="text-2xl font-bold text-gray-800 dark:text-white">Review: {formatReportPeriod(report)}</h2>
+        {category && <p className="text-gray-500 dark:text-gray-400">Habits in {category}</p>}
+        <div className="flex items-baseline gap-3 mt-4">
+          <span className="text-4xl font-bold text-blue-600 dark:text-blue-400">{report.rate}%</span>
+          <span className="text-gray-600 dark:text-gray-300">overall completion rate</span>
+          <Delta current={report.rate} previous={report.previousRate} label={previousLabel} suffix=" pts" />
+        </div>
+        {report.best.length > 0 && (
+          <dl className="mt-4 space-y-1 text-gray-700 dark:text-gray-300">
+            <div>
+              <dt className="inline font-semibold text-green-700 dark:text-green-400">Best: </dt>
+              <dd className="inline">{highlight(report.best)}</dd>
+            </div>
+            {report.worst.length > 0 && (
+              <div>
+                <dt className="inline font-semibold text-red-700 dark:text-red-400">Needs attention: </dt>
+                <dd className="inline">{highlight(report.worst)}</dd>
+              </div>
+            )}
+          </dl>
+        )}
+      </div>
+
+      <div className={sectionClass}>
+        <h3 className={headingClass}>Habits</h3>
+        {report.habits.length === 0 ? (
+          <p className="text-gray-500 dark:text-gray-400">No habits were scheduled in this period.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-gray-700 dark:text-gray-200">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-600 text-left">
+                  <th scope="col" className="py-2 pr-4">Habit</th>
+                  <th scope="col" className="py-2 px-2 text-right">Done</th>
+                  <th scope="col" className="py-2 px-2 text-right">Rate</th>
+                  <th scope="col" className="py-2 px-2 text-right">Change</th>
+                  <th scope="col" className="py-2 pl-2 text-right">Streak</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.habits.map(row => (
+                  <tr key={row.id} className="border-b border-gray-100 dark:border-gray-700">
+                    <th scope="row" className="py-2 pr-4 text-left font-medium">{row.name}</th>
+                    <td className="py-2 px-2 text-right">{row.done} / {row.target}</td>
+                    <td className="py-2 px-2 text-right">{row.rate}%</td>
+                    <td className="py-2 px-2 text-right">
+                      <Delta current={row.rate} previous={row.previousRate} label={previousLabel} suffix=" pts" />
+                    </td>
+                    <td className="py-2 pl-2 text-right">{formatStreakChange(row)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {report.categories.length > 0 && (
+        <div className={sectionClass}>
+          <h3 className={headingClass}>Categories</h3>
+          <ul className="space-y-3">
+            {report.categories.map(row => (
+              <li key={row.name}>
+                <div className="flex justify-between text-sm text-gray-700 dark:text-gray-300 mb-1">
+                  <span className="font-medium">{row.name}</span>
+                  <span>{row.done} / {row.target} ({row.rate}%)</span>
+                </div>
+                <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-600 overflow-hidden print:border print:border-gray-400">
+                  <div className="h-full rounded-full bg-blue-600" style={{ width: `${row.rate}%` }} />
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className={sectionClass}>
+        <h3 className={headingClass}>Projects</h3>
+        {report.projects.length === 0 ? (
+          <p className="text-gray-500 dark:text-gray-400">No project changes in this period.</p>
+        ) : (
+          <ul className="space-y-2">
+            {report.projects.map(row => (
+              <li key={row.id} className="flex flex-wrap items-center gap-2 text-gray-700 dark:text-gray-300">
+                <span className="font-medium text-gray-800 dark:text-white">{row.name}</span>
+                {row.changes.map(change => (
+                  <span
+                    key={change}
+                    className={`px-2 py-0.5 rounded text-xs font-semibold ${
+                      change === 'completed'
+                        ? 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300'
+                        : 'bg-gray-100 text-gray-700 dark:bg-gray-600 dark:text-gray-200'
+                    }`}
+                  >
+                    {PROJECT_CHANGE_LABELS[change]}
+                  </span>
+                ))}
+                <span className="ml-auto text-sm">{PROJECT_STATUS_LABELS[row.status]} · {row.progress}%</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,263 @@
+'use client'
+
+import { useState } from 'react'
+import { subDays } from 'date-fns'
+import { BarChart, Bar, LineChart, Line, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+import { toDateKey, todayKey } from '@/lib/dates'
+import { formatStreak, getStreakLeaderboard } from '@/lib/streaks'
+import { PREVIOUS_LABELS, getRangeLabel } from '@/lib/ranges'
+import { averageRate, getCategoryStats, getHabitStats, sumCompletions } from '@/lib/stats'
+import { chooseBucket, getCompletionTrend } from '@/lib/trend'
+import { useStore } from '@/lib/store'
+import { useTimeRange } from '@/lib/useTimeRange'
+import { useCategoryFilter } from '@/lib/useCategoryFilter'
+import { useReducedMotion } from '@/lib/useReducedMotion'
+import Delta from '@/components/Delta'
+import YearHeatmap from '@/components/YearHeatmap'
+import TimeRangeBar from '@/components/TimeRangeBar'
+import ChartDataTable from '@/components/ChartDataTable'
+
+export default function StatsPage() {
+  const { habits: allHabits, categories, hydrated, toggleHabitCompletion } = useStore()
+  const { timeRange, interval, previousInterval } = useTimeRange()
+  const { category, filterHabits } = useCategoryFilter()
+  const habits = filterHabits(allHabits)
+  const [chartMetric, setChartMetric] = useState<'count' | 'value'>('count')
+  const reducedMotion = useReducedMotion()
+
+  const habitStats = getHabitStats(habits, interval)
+  const previousHabitStats = getHabitStats(habits, previousInterval)
+  const habitComparison = habitStats.map((stat, index) => ({ ...stat, previous: previousHabitStats[index].completions }))
+  const completionTrend = getCompletionTrend(habits, interval, chooseBucket(timeRange, interval))
+  const categoryStats = getCategoryStats(habits, interval, categories)
+  const previousLabel = PREVIOUS_LABELS[timeRange]
+  const rangeLabel = getRangeLabel(timeRange, interval)
+  // Archived habits leave the leaderboard but stay in the charts.
+  const activeHabits = habits.filter(h => !h.archived)
+  const streakLeaderboard = getStreakLeaderboard(activeHabits)
+  const today = todayKey()
+  const yesterday = toDateKey(subDays(new Date(), 1))
+
+  if (allHabits.length === 0) {
+    return hydrated && (
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+        <p className="text-gray-500 dark:text-gray-400">No habits yet. Add one on the Habits page to see statistics.</p>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      <TimeRangeBar>
+        <div className="flex gap-2 ml-auto">
+          {(['count', 'value'] as const).map(metric => (
+            <button
+              key={metric}
+              onClick={() => setChartMetric(metric)}
+              aria-pressed={chartMetric === metric}
+              className={`px-4 py-2 rounded-lg font-medium capitalize transition-all ${
+                chartMetric === metric
+                  ? 'bg-purple-600 text-white shadow'
+                  : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {metric === 'count' ? 'Days done' : 'Logged values'}
+            </button>
+          ))}
+        </div>
+      </TimeRangeBar>
+
+      {category && habits.length === 0 && (
+        <p className="mb-6 text-gray-500 dark:text-gray-400">No habits in {category}.</p>
+      )}
+
+      {/* Year Heatmap */}
+      <YearHeatmap habits={habits} onToggle={toggleHabitCompletion} />
+
+      {/* Statistics */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        {/* Completion Trend */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+          <h3 className="text-xl font-bold mb-4 text-gray-800 dark:text-white">
+            Completion Trend ({rangeLabel})
+          </h3>
+          <div aria-hidden="true">
+            <ResponsiveContainer width="100%" height={250}>
+              <LineChart data={completionTrend}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+                {chartMetric === 'count' ? <YAxis domain={[0, 100]} unit="%" /> : <YAxis />}
+                <Tooltip />
+                <Line
+                  type="monotone"
+                  dataKey={chartMetric === 'count' ? 'rate' : 'value'}
+                  name={chartMetric === 'count' ? 'Completion rate' : 'Logged'}
+                  unit={chartMetric === 'count' ? '%' : undefined}
+                  stroke="#0ea5e9"
+                  strokeWidth={2}
+                  isAnimationActive={!reducedMotion}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <ChartDataTable
+            caption={`Completion trend (${rangeLabel})`}
+            rows={completionTrend}
+            getKey={(point) => point.date}
+            columns={[
+              { label: 'Period', value: (point) => point.date },
+              chartMetric === 'count'
+                ? { label: 'Completion rate', value: (point) => point.rate === null ? '–' : `${point.rate}%` }
+                : { label: 'Logged', value: (point) => point.value }
+            ]}
+          />
+        </div>
+
+        {/* Habit Completions */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+          <h3 className="text-xl font-bold mb-4 text-gray-800 dark:text-white">
+            Habit Completions ({rangeLabel})
+          </h3>
+          <div aria-hidden="true">
+            <ResponsiveContainer width="100%" height={250}>
+              <BarChart data={habitComparison}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" tick={{ fontSize: 12 }} />
+                <YAxis />
+                <Tooltip />
+                <Legend />
+                {chartMetric === 'count' ? (
+                  <>
+                    <Bar dataKey="completions" fill="#8b5cf6" isAnimationActive={!reducedMotion} />
+                    <Bar dataKey="previous" name={previousLabel} fill="#94a3b8" isAnimationActive={!reducedMotion} />
+                    <Bar dataKey="target" fill="#c4b5fd" isAnimationActive={!reducedMotion} />
+                  </>
+                ) : (
+                  <Bar dataKey="value" fill="#8b5cf6" isAnimationActive={!reducedMotion} />
+                )}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <ChartDataTable
+            caption={`Habit completions (${rangeLabel})`}
+            rows={habitComparison}
+            getKey={(stat) => stat.id}
+            columns={chartMetric === 'count' ? [
+              { label: 'Habit', value: (stat) => stat.name },
+              { label: 'Completions', value: (stat) => stat.completions },
+              { label: previousLabel, value: (stat) => stat.previous },
+              { label: 'Target', value: (stat) => stat.target }
+            ] : [
+              { label: 'Habit', value: (stat) => stat.name },
+              { label: 'Logged', value: (stat) => stat.value }
+            ]}
+          />
+        </div>
+
+        {/* Category Distribution */}
+        {categoryStats.length > 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+            <h3 className="text-xl font-bold mb-4 text-gray-800 dark:text-white">
+              Category Distribution ({rangeLabel})
+            </h3>
+            <div aria-hidden="true">
+              <ResponsiveContainer width="100%" height={250}>
+                <PieChart>
+                  <Pie
+                    data={categoryStats}
+                    cx="50%"
+                    cy="50%"
+                    labelLine={false}
+                    label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
+                    outerRadius={80}
+                    fill="#8884d8"
+                    dataKey="value"
+                    isAnimationActive={!reducedMotion}
+                  >
+                    {categoryStats.map(entry => (
+                      <Cell key={entry.name} fill={entry.color} />
+                    ))}
+                  </Pie>
+                  <Tooltip />
+                </PieChart>
+              </ResponsiveContainer>
+            </div>
+            <ChartDataTable
+              caption={`Category distribution (${rangeLabel})`}
+              rows={categoryStats}
+              getKey={(stat) => stat.name}
+              columns={[
+                { label: 'Category', value: (stat) => stat.name },
+                { label: 'Check-ins', value: (stat) => stat.value }
+              ]}
+            />
+          </div>
+        )}
+
+        {/* Summary Stats */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+          <h3 className="text-xl font-bold mb-4 text-gray-800 dark:text-white">Summary</h3>
+          <div className="space-y-4">
+            <div className="flex justify-between items-center p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
+              <span className="text-gray-700 dark:text-gray-300">Total Habits</span>
+              <span className="text-2xl font-bold text-blue-600 dark:text-blue-400">{activeHabits.length}</span>
+            </div>
+            <div className="flex justify-between items-center p-3 bg-green-50 dark:bg-green-900/20 rounded-lg">
+              <span className="text-gray-700 dark:text-gray-300">Completed Today</span>
+              <div className="flex flex-col items-end">
+                <span className="text-2xl font-bold text-green-600 dark:text-green-400">
+                  {activeHabits.filter(h => h.completions.includes(today)).length}
+                </span>
+                <Delta
+                  current={activeHabits.filter(h => h.completions.includes(today)).length}
+                  previous={activeHabits.filter(h => h.completions.includes(yesterday)).length}
+                  label="yesterday"
+                />
+              </div>
+            </div>
+            <div className="flex justify-between items-center p-3 bg-purple-50 dark:bg-purple-900/20 rounded-lg">
+              <span className="text-gray-700 dark:text-gray-300">Total Completions ({rangeLabel})</span>
+              <div className="flex flex-col items-end">
+                <span className="text-2xl font-bold text-purple-600 dark:text-purple-400">
+                  {sumCompletions(habitStats)}
+                </span>
+                <Delta current={sumCompletions(habitStats)} previous={sumCompletions(previousHabitStats)} label={previousLabel} />
+              </div>
+            </div>
+            <div className="flex justify-between items-center p-3 bg-orange-50 dark:bg-orange-900/20 rounded-lg">
+              <span className="text-gray-700 dark:text-gray-300">Completion Rate ({rangeLabel})</span>
+              <div className="flex flex-col items-end">
+                <span className="text-2xl font-bold text-orange-600 dark:text-orange-400">
+                  {averageRate(habitStats)}%
+                </span>
+                <Delta current={averageRate(habitStats)} previous={averageRate(previousHabitStats)} label={previousLabel} suffix=" pts" />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Streak Leaderboard */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+          <h3 className="text-xl font-bold mb-4 text-gray-800 dark:text-white">Streak Leaderboard</h3>
+          <ol className="space-y-2">
+            {streakLeaderboard.map((entry, index) => (
+              <li
+                key={entry.habit.id}
+                className="flex items-center gap-3 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg"
+              >
+                <span className="w-6 text-sm font-bold text-gray-500 dark:text-gray-400">{index + 1}</span>
+                <span className="w-3 h-3 rounded-full" style={{ backgroundColor: entry.habit.color }} />
+                <span className="flex-1 text-gray-700 dark:text-gray-300">{entry.habit.name}</span>
+                {entry.atRisk && (
+                  <span className="text-xs font-semibold text-red-600 dark:text-red-400">at risk</span>
+                )}
+                <span className="text-sm text-gray-500 dark:text-gray-400">best {entry.longest}</span>
+                <span className="text-lg font-bold text-orange-600 dark:text-orange-400">🔥 {formatStreak(entry.current, entry.unit)}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,108 @@
+'use client'
+
+import Link from 'next/link'
+import { format, parseISO } from 'date-fns'
+import { AgendaItem, AgendaPriority, getAgenda } from '@/lib/agenda'
+import { withTaskStatus, withTasks } from '@/lib/projects'
+import { formatValue, getDailyTarget, getDayValue, isMeasurable } from '@/lib/habits'
+import { todayKey } from '@/lib/dates'
+import { useStore } from '@/lib/store'
+
+const PRIORITY_LABELS: { [priority in AgendaPriority]: { label: string; className: string } } = {
+  overdue: { label: 'Overdue', className: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300' },
+  'due-today': { label: 'Due today', className: 'bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-300' },
+  habit: { label: 'Habit', className: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300' },
+  'in-progress': { label: 'In progress', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300' },
+  upcoming: { label: 'Upcoming', className: 'bg-gray-100 text-gray-700 dark:bg-gray-600 dark:text-gray-200' },
+  open: { label: 'Open', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300' }
+}
+
+export default function TodayPage() {
+  const { habits, projects, commit, toggleHabitCompletion } = useStore()
+  const today = todayKey()
+  const agenda = getAgenda(habits, projects)
+  const doneCount = agenda.filter(item => item.done).length
+
+  const toggleItem = (item: AgendaItem) => {
+    if (item.type === 'habit') {
+      toggleHabitCompletion(item.habit.id)
+      return
+    }
+    const { project, task } = item
+    const tasks = project.tasks.map(t => t.id === task.id ? withTaskStatus(t, task.completed ? 'in-progress' : 'done') : t)
+    commit(task.completed ? 'Reopen task' : 'Complete task', {
+      projects: projects.map(p => p.id === project.id ? withTasks(p, tasks) : p)
+    })
+  }
+
+  const describe = (item: AgendaItem) => {
+    if (item.type === 'habit') {
+      const parts = [item.habit.category]
+      if (isMeasurable(item.habit)) {
+        parts.push(`${getDayValue(item.habit, today)} / ${formatValue(item.habit, getDailyTarget(item.habit))}`)
+      }
+      if (item.habit.reminders?.length) parts.push(`🔔 ${item.habit.reminders.join(', ')}`)
+      if (item.project) parts.push(`for ${item.project.name}`)
+      return parts.join(' · ')
+    }
+    const due = item.task.dueDate && `due ${format(parseISO(item.task.dueDate), 'MMM d')}`
+    return [item.project.name, due].filter(Boolean).join(' · ')
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-6">
+      <div className="flex flex-wrap justify-between items-baseline gap-2 mb-4">
+        <h2 className="text-2xl font-bold text-gray-800 dark:text-white">Today</h2>
+        <span className="text-gray-500 dark:text-gray-400">{format(new Date(), 'EEEE, MMMM d')}</span>
+      </div>
+      {agenda.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400">
+          No habits due and no open tasks. Add <Link href="/habits" className="text-blue-600 hover:underline">habits</Link> or
+          tasks to a <Link href="/projects" className="text-blue-600 hover:underline">project</Link> to fill your agenda.
+        </p>
+      ) : (
+        <>
+          <div
+            className="h-2 mb-1 rounded-full bg-gray-200 dark:bg-gray-600 overflow-hidden"
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={agenda.length}
+            aria-valuenow={doneCount}
+            aria-label="Agenda progress"
+          >
+            <div className="h-full rounded-full bg-green-500 transition-all" style={{ width: `${(doneCount / agenda.length) * 100}%` }} />
+          </div>
+          <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">{doneCount} of {agenda.length} done</p>
+          <ul className="space-y-2">
+            {agenda.map(item => {
+              const name = item.type === 'habit' ? item.habit.name : item.task.name
+              const style = PRIORITY_LABELS[item.priority]
+              return (
+                <li key={item.key} className="flex items-center gap-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={item.done}
+                    onChange={() => toggleItem(item)}
+                    aria-label={`${item.done ? 'Uncheck' : 'Check off'} ${name}`}
+                    className="w-5 h-5 accent-green-500"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className={`font-medium ${item.done ? 'line-through text-gray-400' : 'text-gray-800 dark:text-white'}`}>
+                      {item.type === 'habit' ? (
+                        <Link href={`/habits/${item.habit.id}`} className="hover:text-blue-600 hover:underline">{name}</Link>
+                      ) : name}
+                    </p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400 truncate">{describe(item)}</p>
+                  </div>
+                  {!item.done && (
+                    <span className={`px-2 py-0.5 rounded text-xs font-semibold ${style.className}`}>{style.label}</span>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        </>
+      )}
+    </div>
+  )
+}
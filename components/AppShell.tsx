@@ -0,0 +1,170 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { usePathname, useRouter } from 'next/navigation'
+import { todayKey } from '@/lib/dates'
+import { useStore } from '@/lib/store'
+import { useTimeRange } from '@/lib/useTimeRange'
+import { useCategoryFilter } from '@/lib/useCategoryFilter'
+import { useReminders } from '@/lib/useReminders'
+import { registerServiceWorker } from '@/lib/notifications'
+import RecoveryBanner from '@/components/RecoveryBanner'
+import DataTransfer from '@/components/DataTransfer'
+import UndoToast from '@/components/UndoToast'
+import SyncPanel from '@/components/SyncPanel'
+import CommandPalette, { PaletteCommand } from '@/components/CommandPalette'
+
+interface AppShellProps {
+  children: React.ReactNode
+}
+
+const NAV_ITEMS = [
+  { href: '/today', label: 'Today', keepsFilters: false },
+  { href: '/habits', label: 'Habits', keepsFilters: true },
+  { href: '/projects', label: 'Projects', keepsFilters: false },
+  { href: '/goals', label: 'Goals', keepsFilters: false },
+  { href: '/stats', label: 'Stats', keepsFilters: true },
+  { href: '/review', label: 'Review', keepsFilters: true }
+]
+
+export default function AppShell({ children }: AppShellProps) {
+  const { habits, projects, categories, goals, quarantined, loadError, discardQuarantined, history, commit, undo, redo, toggleHabitCompletion, toast, closeToast } = useStore()
+  const { query: rangeQuery } = useTimeRange()
+  const { query: categoryQuery } = useCategoryFilter()
+  const pathname = usePathname()
+  const router = useRouter()
+  const [paletteOpen, setPaletteOpen] = useState(false)
+  useReminders()
+
+  useEffect(() => {
+    registerServiceWorker().catch(e => console.error('Failed to register service worker', e))
+  }, [])
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey)) return
+      const key = e.key.toLowerCase()
+      // The palette opens from anywhere, including text fields.
+      if (key === 'k') {
+        e.preventDefault()
+        setPaletteOpen(open => !open)
+        return
+      }
+      const target = e.target as HTMLElement
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        redo()
+      }
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  })
+
+  const today = todayKey()
+  const commands: PaletteCommand[] = [
+    ...NAV_ITEMS.map(item => ({
+      id: `go${item.href.replace('/', '-')}`,
+      label: item.label,
+      group: 'Go to',
+      run: () => router.push(item.href)
+    })),
+    ...habits.filter(h => !h.archived).map(habit => ({
+      id: `habit-${habit.id}`,
+      label: `${habit.completions.includes(today) ? 'Uncheck' : 'Check off'} ${habit.name}`,
+      group: 'Habit',
+      run: () => toggleHabitCompletion(habit.id)
+    })),
+    ...(history.canUndo ? [{ id: 'undo', label: `Undo ${history.nextUndo ?? ''}`.trim(), group: 'Edit', run: undo }] : []),
+    ...(history.canRedo ? [{ id: 'redo', label: `Redo ${history.nextRedo ?? ''}`.trim(), group: 'Edit', run: redo }] : [])
+  ]
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4 md:p-8 print:bg-none print:p-0">
+      <div className="max-w-7xl mx-auto">
+        <header className="mb-8 print:hidden">
+          <h1 className="text-4xl md:text-5xl font-bold text-gray-800 dark:text-white mb-2">
+            📊 Habit & Project Tracker
+          </h1>
+          <p className="text-gray-600 dark:text-gray-300">Track your progress and achieve your goals</p>
+        </header>
+
+        <RecoveryBanner records={quarantined} loadError={loadError} onDismiss={discardQuarantined} />
+
+        {/* Navigation */}
+        <nav aria-label="Main" className="flex flex-wrap gap-4 mb-6 print:hidden">
+          {NAV_ITEMS.map(item => (
+            <Link
+              key={item.href}
+              href={{ pathname: item.href, query: item.keepsFilters ? { ...rangeQuery, ...categoryQuery } : undefined }}
+              aria-current={pathname.startsWith(item.href) ? 'page' : undefined}
+              className={`px-6 py-3 rounded-lg font-semibold transition-all ${
+                pathname.startsWith(item.href)
+                  ? 'bg-blue-600 text-white shadow-lg'
+                  : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {item.label}
+            </Link>
+          ))}
+          <div className="flex gap-2 ml-auto">
+            <button
+              onClick={() => setPaletteOpen(true)}
+              title="Command palette (Ctrl+K)"
+              aria-keyshortcuts="Control+K Meta+K"
+              className="px-4 py-3 rounded-lg font-semibold bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 transition-all"
+            >
+              ⌘K
+            </button>
+            <button
+              onClick={undo}
+              disabled={!history.canUndo}
+              title={history.nextUndo ? `Undo ${history.nextUndo} (Ctrl+Z)` : 'Nothing to undo'}
+              className="px-4 py-3 rounded-lg font-semibold bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 disabled:opacity-40 transition-all"
+            >
+              ↶ Undo
+            </button>
+            <button
+              onClick={redo}
+              disabled={!history.canRedo}
+              title={history.nextRedo ? `Redo ${history.nextRedo} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+              className="px-4 py-3 rounded-lg font-semibold bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 disabled:opacity-40 transition-all"
+            >
+              ↷ Redo
+            </button>
+          </div>
+        </nav>
+
+        {children}
+
+        {paletteOpen && <CommandPalette commands={commands} onClose={() => setPaletteOpen(false)} />}
+
+        {/* Only the page itself is printed, e.g. the review report. */}
+        <div className="print:hidden">
+          <DataTransfer
+            habits={habits}
+            projects={projects}
+            categories={categories}
+            goals={goals}
+            onImport={(importedHabits, importedProjects, importedCategories, importedGoals) =>
+              commit('Imported data', {
+                habits: importedHabits,
+                projects: importedProjects,
+                categories: importedCategories,
+                goals: importedGoals
+              }, { undoToast: true })
+            }
+          />
+
+          <SyncPanel />
+
+          {toast && <UndoToast message={toast} onUndo={undo} onClose={closeToast} />}
+        </div>
+      </div>
+    </div>
+  )
+}
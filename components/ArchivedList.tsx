@@ -0,0 +1,48 @@
+'use client'
+
+import { useState } from 'react'
+
+interface ArchivedListProps {
+  items: { id: string; name: string }[]
+  onRestore: (id: string) => void
+  onDelete: (id: string) => void
+}
+
+export default function ArchivedList({ items, onRestore, onDelete }: ArchivedListProps) {
+  const [open, setOpen] = useState(false)
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-600">
+      <button
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        className="text-sm font-semibold text-gray-600 dark:text-gray-300 hover:text-blue-600"
+      >
+        {open ? '▾' : '▸'} Archived ({items.length})
+      </button>
+      {open && (
+        <ul className="mt-2 space-y-2">
+          {items.map(item => (
+            <li key={item.id} className="flex items-center gap-3 px-4 py-2 rounded-lg bg-gray-50 dark:bg-gray-700">
+              <span className="flex-1 text-gray-600 dark:text-gray-300">{item.name}</span>
+              <button
+                onClick={() => onRestore(item.id)}
+                aria-label={`Restore ${item.name}`}
+                className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Restore
+              </button>
+              <button
+                onClick={() => onDelete(item.id)}
+                aria-label={`Delete ${item.name}`}
+                className="text-red-500 hover:text-red-700 font-bold"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,34 @@
+'use client'
+
+import { Goal } from '@/lib/types'
+import { formatGoalDate } from '@/lib/goals'
+
+interface BadgeShelfProps {
+  goals: Goal[]
+}
+
+// Every goal ever achieved, archived ones included, newest first.
+export default function BadgeShelf({ goals }: BadgeShelfProps) {
+  const badges = goals
+    .filter((goal): goal is Goal & { achievedAt: string } => !!goal.achievedAt)
+    .sort((a, b) => b.achievedAt.localeCompare(a.achievedAt))
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-6">
+      <h2 className="text-2xl font-bold mb-4 text-gray-800 dark:text-white">Badges</h2>
+      {badges.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400">Reach a goal to earn your first badge.</p>
+      ) : (
+        <ul className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
+          {badges.map(goal => (
+            <li key={goal.id} className="flex flex-col items-center text-center p-4 rounded-lg bg-amber-50 dark:bg-amber-900/20">
+              <span className="text-4xl" aria-hidden="true">🏅</span>
+              <span className="mt-2 font-semibold text-gray-800 dark:text-white">{goal.name}</span>
+              <span className="text-xs text-gray-500 dark:text-gray-400">{formatGoalDate(goal.achievedAt)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
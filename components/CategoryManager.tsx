@@ -0,0 +1,150 @@
+'use client'
+
+import { useState } from 'react'
+import { endOfWeek, startOfWeek } from 'date-fns'
+import { COLORS } from '@/lib/colors'
+import { CategoryInfo, getCategoryDone, getCategoryInfos, mergeCategories, sameCategory, upsertCategory } from '@/lib/categories'
+import { useStore } from '@/lib/store'
+import CategoryPicker from './CategoryPicker'
+
+export default function CategoryManager() {
+  const { habits, categories, goals, commit } = useStore()
+  const [selected, setSelected] = useState<string[]>([])
+  const [target, setTarget] = useState('')
+
+  const infos = getCategoryInfos(categories, habits)
+  const now = new Date()
+  const week = { start: startOfWeek(now), end: endOfWeek(now) }
+  const isSelected = (name: string) => selected.some(s => sameCategory(s, name))
+
+  const toggleSelected = (name: string) =>
+    setSelected(isSelected(name) ? selected.filter(s => !sameCategory(s, name)) : [...selected, name])
+
+  const update = (info: CategoryInfo, label: string, changes: Parameters<typeof upsertCategory>[2]) => {
+    commit(label, { categories: upsertCategory(categories, info.name, changes) }, { coalesceKey: `category-${info.name}` })
+  }
+
+  const removeEntry = (info: CategoryInfo) => {
+    commit(`Removed category "${info.name}"`, { categories: categories.filter(c => !sameCategory(c.name, info.name)) })
+  }
+
+  const applyMerge = () => {
+    if (selected.length === 0 || !target.trim()) return
+    const result = mergeCategories(habits, categories, goals, selected, target)
+    const label = selected.length === 1 ? `Renamed "${selected[0]}"` : `Merged ${selected.length} categories`
+    commit(label, result, { undoToast: true })
+    setSelected([])
+    setTarget('')
+  }
+
+  if (infos.length === 0) return null
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-6">
+      <h2 className="text-2xl font-bold mb-4 text-gray-800 dark:text-white">Categories</h2>
+      <div className="space-y-2">
+        {infos.map(info => {
+          const done = getCategoryDone(habits, info.name, week)
+          return (
+            <div key={info.name} className="flex flex-wrap items-center gap-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-700">
+              <input
+                type="checkbox"
+                checked={isSelected(info.name)}
+                onChange={() => toggleSelected(info.name)}
+                aria-label={`Select ${info.name} to rename or merge`}
+                className="w-4 h-4 accent-blue-600"
+              />
+              <span className="w-4 h-4 rounded-full" style={{ backgroundColor: info.color }} />
+              <span className="font-semibold text-gray-800 dark:text-white">{info.name}</span>
+              <span className="text-sm text-gray-500 dark:text-gray-400">
+                {info.habitCount} habit{info.habitCount === 1 ? '' : 's'}
+              </span>
+              <div className="flex gap-1">
+                {COLORS.map(option => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => update(info, `Recolored "${info.name}"`, { color: option })}
+                    aria-label={`Use color ${option} for ${info.name}`}
+                    className={`w-5 h-5 rounded-full ${info.color === option ? 'ring-2 ring-offset-1 ring-gray-800 dark:ring-white' : ''}`}
+                    style={{ backgroundColor: option }}
+                  />
+                ))}
+              </div>
+              <label className="flex items-center gap-2 ml-auto text-sm text-gray-600 dark:text-gray-300">
+                Weekly goal
+                <input
+                  type="number"
+                  min={1}
+                  value={info.weeklyGoal ?? ''}
+                  placeholder="–"
+                  onChange={(e) => {
+                    const goal = parseInt(e.target.value)
+                    update(info, `Set goal for "${info.name}"`, { weeklyGoal: goal > 0 ? goal : undefined })
+                  }}
+                  className="w-20 px-2 py-1 rounded border border-gray-300 dark:border-gray-500 dark:bg-gray-800 text-center"
+                />
+              </label>
+              {info.weeklyGoal ? (
+                <div className="w-40">
+                  <div className="flex justify-between text-xs text-gray-600 dark:text-gray-300 mb-1">
+                    <span>This week</span>
+                    <span className={done >= info.weeklyGoal ? 'font-semibold text-green-600 dark:text-green-400' : ''}>
+                      {done} / {info.weeklyGoal}
+                    </span>
+                  </div>
+                  <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-600 overflow-hidden">
+                    <div
+                      className="h-full rounded-full"
+                      style={{ width: `${Math.min(100, (done / info.weeklyGoal) * 100)}%`, backgroundColor: info.color }}
+                    />
+                  </div>
+                </div>
+              ) : (
+                <span className="w-40 text-xs text-gray-500 dark:text-gray-400">{done} check-ins this week</span>
+              )}
+              {info.registered && info.habitCount === 0 && (
+                <button
+                  onClick={() => removeEntry(info)}
+                  aria-label={`Remove category ${info.name}`}
+                  className="text-red-500 hover:text-red-700 font-bold"
+                >
+                  ×
+                </button>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {selected.length > 0 && (
+        <div className="mt-4 flex flex-wrap items-center gap-3">
+          <span className="text-sm text-gray-600 dark:text-gray-300">
+            {selected.length === 1 ? `Rename "${selected[0]}" to` : `Merge ${selected.length} categories into`}
+          </span>
+          <CategoryPicker
+            value={target}
+            onChange={setTarget}
+            categories={infos.filter(info => !isSelected(info.name))}
+            onEnter={applyMerge}
+            placeholder={selected.length === 1 ? 'New name' : 'Category to keep'}
+            className="flex-1 min-w-[12rem]"
+          />
+          <button
+            onClick={applyMerge}
+            disabled={!target.trim()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            {selected.length === 1 ? 'Rename' : 'Merge'}
+          </button>
+          <button
+            onClick={() => setSelected([])}
+            className="px-4 py-2 text-gray-600 dark:text-gray-300 hover:text-gray-800"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,110 @@
+'use client'
+
+import { useId, useState } from 'react'
+import { CategoryInfo, sameCategory } from '@/lib/categories'
+
+interface CategoryPickerProps {
+  value: string
+  onChange: (value: string) => void
+  categories: CategoryInfo[]
+  onEnter?: () => void
+  placeholder?: string
+  className?: string
+}
+
+// Text input that suggests existing categories as you type, so "health" and
+// "Health " end up as the same category instead of two.
+export default function CategoryPicker({ value, onChange, categories, onEnter, placeholder = 'Category', className = '' }: CategoryPickerProps) {
+  const listId = useId()
+  const [open, setOpen] = useState(false)
+  const [active, setActive] = useState(0)
+
+  const query = value.trim().toLowerCase()
+  const matches = categories.filter(c => c.name.toLowerCase().includes(query))
+  const isNew = query !== '' && !categories.some(c => sameCategory(c.name, value))
+  const showList = open && (matches.length > 0 || isNew)
+
+  const choose = (name: string) => {
+    onChange(name)
+    setOpen(false)
+  }
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setOpen(true)
+      setActive(Math.max(0, Math.min(active + 1, matches.length - 1)))
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setActive(Math.max(active - 1, 0))
+    } else if (e.key === 'Escape') {
+      setOpen(false)
+    } else if (e.key === 'Enter') {
+      if (showList && matches[active] && !sameCategory(matches[active].name, value)) {
+        e.preventDefault()
+        choose(matches[active].name)
+      } else {
+        setOpen(false)
+        onEnter?.()
+      }
+    }
+  }
+
+  return (
+    <div className={`relative ${className}`}>
+      <input
+        type="text"
+        role="combobox"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={showList && matches[active] ? `${listId}-${active}` : undefined}
+        placeholder={placeholder}
+        aria-label="Category"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value)
+          setActive(0)
+          setOpen(true)
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={onKeyDown}
+        className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+      />
+      {showList && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-10 mt-1 w-full max-h-60 overflow-auto rounded-lg bg-white dark:bg-gray-700 shadow-lg border border-gray-200 dark:border-gray-600"
+        >
+          {matches.map((category, index) => (
+            <li
+              key={category.name}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === active}
+              // Chosen on mousedown so the input's blur doesn't close the list first.
+              onMouseDown={(e) => {
+                e.preventDefault()
+                choose(category.name)
+              }}
+              className={`flex items-center gap-2 px-3 py-2 cursor-pointer text-gray-700 dark:text-gray-200 ${
+                index === active ? 'bg-blue-50 dark:bg-gray-600' : ''
+              }`}
+            >
+              <span className="w-3 h-3 rounded-full" style={{ backgroundColor: category.color }} />
+              <span className="flex-1">{category.name}</span>
+              <span className="text-xs text-gray-500 dark:text-gray-400">{category.habitCount}</span>
+            </li>
+          ))}
+          {isNew && (
+            <li className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
+              New category “{value.trim()}”
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,49 @@
+'use client'
+
+interface ChartDataColumn<T> {
+  label: string
+  value: (row: T) => React.ReactNode
+}
+
+interface ChartDataTableProps<T> {
+  // Names the chart the table stands in for.
+  caption: string
+  rows: T[]
+  getKey: (row: T) => string
+  // The first column labels each row.
+  columns: ChartDataColumn<T>[]
+}
+
+// The numbers behind a chart, for screen readers and anyone who wants exact values.
+export default function ChartDataTable<T>({ caption, rows, getKey, columns }: ChartDataTableProps<T>) {
+  const [labelColumn, ...valueColumns] = columns
+  return (
+    <details className="mt-3 text-sm text-gray-700 dark:text-gray-300 print:hidden">
+      <summary className="cursor-pointer font-medium text-gray-500 dark:text-gray-400 hover:text-blue-600">Show data table</summary>
+      <div className="mt-2 max-h-64 overflow-auto">
+        <table className="w-full">
+          <caption className="sr-only">{caption}</caption>
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-600">
+              {columns.map((column, index) => (
+                <th key={column.label} scope="col" className={`py-1 px-2 font-semibold ${index === 0 ? 'text-left' : 'text-right'}`}>
+                  {column.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={getKey(row)} className="border-b border-gray-100 dark:border-gray-700">
+                <th scope="row" className="py-1 px-2 text-left font-normal">{labelColumn.value(row)}</th>
+                {valueColumns.map(column => (
+                  <td key={column.label} className="py-1 px-2 text-right">{column.value(row)}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </details>
+  )
+}
@@ -0,0 +1,110 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+
+export interface PaletteCommand {
+  id: string
+  label: string
+  // Shown on the right, e.g. "Go to" or "Habit".
+  group: string
+  run: () => void
+}
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[]
+  onClose: () => void
+}
+
+export default function CommandPalette({ commands, onClose }: CommandPaletteProps) {
+  const [query, setQuery] = useState('')
+  const [active, setActive] = useState(0)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  // Focus goes back where it was once the palette closes.
+  useEffect(() => {
+    const previous = document.activeElement as HTMLElement | null
+    inputRef.current?.focus()
+    return () => previous?.focus()
+  }, [])
+
+  const needle = query.trim().toLowerCase()
+  const results = commands.filter(command => command.label.toLowerCase().includes(needle))
+  const current = Math.min(active, results.length - 1)
+
+  const run = (command: PaletteCommand) => {
+    onClose()
+    command.run()
+  }
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if ((e.key === 'ArrowDown' || e.key === 'ArrowUp') && results.length === 0) {
+      e.preventDefault()
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setActive((current + 1) % results.length)
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setActive((current - 1 + results.length) % results.length)
+    } else if (e.key === 'Enter' && results[current]) {
+      e.preventDefault()
+      run(results[current])
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      onClose()
+    } else if (e.key === 'Tab') {
+      // The search box is the only stop; keep focus inside the dialog.
+      e.preventDefault()
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/40 p-4 pt-24 print:hidden" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-lg rounded-xl bg-white dark:bg-gray-800 shadow-2xl overflow-hidden"
+      >
+        <input
+          ref={inputRef}
+          type="text"
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="command-palette-results"
+          aria-activedescendant={results[current] ? `command-${results[current].id}` : undefined}
+          aria-label="Search commands"
+          placeholder="Go to a page or check off a habit…"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value)
+            setActive(0)
+          }}
+          onKeyDown={onKeyDown}
+          className="w-full px-4 py-3 border-b border-gray-200 dark:border-gray-600 bg-transparent text-gray-800 dark:text-white outline-none"
+        />
+        <ul id="command-palette-results" role="listbox" aria-label="Commands" className="max-h-80 overflow-y-auto py-2">
+          {results.map((command, index) => (
+            <li
+              key={command.id}
+              id={`command-${command.id}`}
+              role="option"
+              aria-selected={index === current}
+              onClick={() => run(command)}
+              onMouseMove={() => setActive(index)}
+              className={`flex justify-between gap-4 px-4 py-2 cursor-pointer ${
+                index === current ? 'bg-blue-600 text-white' : 'text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              <span>{command.label}</span>
+              <span className={`text-sm ${index === current ? 'text-blue-100' : 'text-gray-400'}`}>{command.group}</span>
+            </li>
+          ))}
+          {results.length === 0 && (
+            <li className="px-4 py-2 text-gray-500 dark:text-gray-400">No matching commands</li>
+          )}
+        </ul>
+      </div>
+    </div>
+  )
+}
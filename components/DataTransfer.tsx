@@ -0,0 +1,141 @@
+'use client'
+
+import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Category, Goal, Habit, Project } from '@/lib/types'
+import { Backup, ImportMode, applyImport, createBackup, habitsToCsv, importCategories, importGoals, parseBackup, previewImport, tasksToCsv } from '@/lib/backup'
+import { downloadFile } from '@/lib/download'
+
+interface DataTransferProps {
+  habits: Habit[]
+  projects: Project[]
+  categories: Category[]
+  goals: Goal[]
+  onImport: (habits: Habit[], projects: Project[], categories: Category[], goals: Goal[]) => void
+}
+
+export default function DataTransfer({ habits, projects, categories, goals, onImport }: DataTransferProps) {
+  const [pending, setPending] = useState<{ backup: Backup; fileName: string } | null>(null)
+  const [mode, setMode] = useState<ImportMode>('merge')
+  const [error, setError] = useState('')
+
+  const stamp = () => format(new Date(), 'yyyy-MM-dd')
+
+  const exportJson = () => {
+    downloadFile(`tracker-backup-${stamp()}.json`, JSON.stringify(createBackup(habits, projects, categories, goals), null, 2), 'application/json')
+  }
+
+  const readFile = async (file: File) => {
+    setError('')
+    setPending(null)
+    try {
+      setPending({ backup: parseBackup(await file.text()), fileName: file.name })
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not read file')
+    }
+  }
+
+  const confirmImport = () => {
+    if (!pending) return
+    const result = applyImport(habits, projects, pending.backup, mode)
+    onImport(
+      result.habits,
+      result.projects,
+      importCategories(categories, pending.backup, mode),
+      importGoals(goals, pending.backup, mode)
+    )
+    setPending(null)
+  }
+
+  const preview = pending && previewImport(habits, projects, categories, goals, pending.backup, mode)
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mt-6">
+      <h2 className="text-2xl font-bold mb-4 text-gray-800 dark:text-white">Backup & Restore</h2>
+      <div className="flex flex-wrap gap-3 mb-4">
+        <button
+          onClick={exportJson}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+        >
+          Export JSON
+        </button>
+        <button
+          onClick={() => downloadFile(`habit-completions-${stamp()}.csv`, habitsToCsv(habits), 'text/csv')}
+          className="px-4 py-2 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
+        >
+          Habits CSV
+        </button>
+        <button
+          onClick={() => downloadFile(`project-tasks-${stamp()}.csv`, tasksToCsv(projects), 'text/csv')}
+          className="px-4 py-2 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
+        >
+          Tasks CSV
+        </button>
+        <label className="px-4 py-2 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg font-semibold hover:bg-gray-50 transition-colors cursor-pointer">
+          Import JSON…
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) readFile(file)
+              e.target.value = ''
+            }}
+          />
+        </label>
+      </div>
+
+      {error && (
+        <p className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 text-sm">{error}</p>
+      )}
+
+      {pending && preview && (
+        <div className="p-4 rounded-lg bg-gray-50 dark:bg-gray-700">
+          <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">
+            <span className="font-semibold">{pending.fileName}</span>
+            {pending.backup.exportedAt && ` · exported ${format(parseISO(pending.backup.exportedAt), 'MMM d, yyyy HH:mm')}`}
+            {` · ${pending.backup.habits.length} habits, ${pending.backup.projects.length} projects, ${pending.backup.categories.length} categories, ${pending.backup.goals.length} goals`}
+          </p>
+          <div className="flex gap-2 mb-3">
+            {(['merge', 'replace'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                aria-pressed={mode === option}
+                className={`px-4 py-2 rounded-lg font-medium capitalize transition-all ${
+                  mode === option
+                    ? 'bg-indigo-600 text-white shadow'
+                    : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <ul className="text-sm text-gray-700 dark:text-gray-300 space-y-1 mb-4">
+            <li>Habits: {preview.habitsAdded} added, {preview.habitsUpdated} updated, {preview.habitsRemoved} removed</li>
+            <li>Completions: {preview.completionsAdded} new check-ins</li>
+            <li>Projects: {preview.projectsAdded} added, {preview.projectsUpdated} updated, {preview.projectsRemoved} removed</li>
+            <li>Categories: {preview.categoriesAdded} added, {preview.categoriesUpdated} updated, {preview.categoriesRemoved} removed</li>
+            <li>Goals: {preview.goalsAdded} added, {preview.goalsUpdated} updated, {preview.goalsRemoved} removed</li>
+          </ul>
+          <div className="flex gap-3">
+            <button
+              onClick={confirmImport}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg font-semibold hover:bg-green-700 transition-colors"
+            >
+              Apply import
+            </button>
+            <button
+              onClick={() => setPending(null)}
+              className="px-4 py-2 text-gray-600 dark:text-gray-300 hover:text-gray-800"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
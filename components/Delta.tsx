@@ -0,0 +1,21 @@
+interface DeltaProps {
+  current: number
+  previous: number
+  label: string
+  suffix?: string
+}
+
+export default function Delta({ current, previous, label, suffix = '' }: DeltaProps) {
+  const diff = Math.round((current - previous) * 10) / 10
+  return (
+    <span className={`text-xs font-medium ${
+      diff > 0
+        ? 'text-green-600 dark:text-green-400'
+        : diff < 0
+          ? 'text-red-600 dark:text-red-400'
+          : 'text-gray-500 dark:text-gray-400'
+    }`}>
+      {diff > 0 ? '+' : ''}{diff}{suffix} vs {label}
+    </span>
+  )
+}
@@ -0,0 +1,91 @@
+'use client'
+
+import { GoalTarget, Habit, Project } from '@/lib/types'
+import { CategoryInfo } from '@/lib/categories'
+
+interface GoalTargetInputProps {
+  value: GoalTarget
+  onChange: (value: GoalTarget) => void
+  habits: Habit[]
+  projects: Project[]
+  categories: CategoryInfo[]
+}
+
+const chipClass = (selected: boolean) =>
+  `px-3 py-1 rounded-full text-sm font-medium transition-all ${
+    selected ? 'bg-blue-600 text-white' : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200'
+  }`
+
+const toggle = (ids: string[], id: string) => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]
+
+export default function GoalTargetInput({ value, onChange, habits, projects, categories }: GoalTargetInputProps) {
+  const setType = (type: GoalTarget['type']) => {
+    if (type === 'habits') onChange({ type, habitIds: [] })
+    else if (type === 'category') onChange({ type, category: categories[0]?.name ?? '' })
+    else onChange({ type, projectIds: [] })
+  }
+
+  return (
+    <div className="space-y-3">
+      <select
+        value={value.type}
+        onChange={(e) => setType(e.target.value as GoalTarget['type'])}
+        aria-label="Goal type"
+        className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+      >
+        <option value="habits">Habit check-ins</option>
+        <option value="category">Check-ins in a category</option>
+        <option value="projects">Completed projects</option>
+      </select>
+
+      {value.type === 'habits' && (
+        <div className="flex flex-wrap gap-2">
+          {habits.length === 0 && <span className="text-sm text-gray-500 dark:text-gray-400">Add a habit first.</span>}
+          {habits.map(habit => (
+            <button
+              key={habit.id}
+              type="button"
+              aria-pressed={value.habitIds.includes(habit.id)}
+              onClick={() => onChange({ ...value, habitIds: toggle(value.habitIds, habit.id) })}
+              className={chipClass(value.habitIds.includes(habit.id))}
+            >
+              {habit.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {value.type === 'category' && (
+        <select
+          value={value.category}
+          onChange={(e) => onChange({ ...value, category: e.target.value })}
+          aria-label="Category"
+          className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+        >
+          {categories.map(category => (
+            <option key={category.name} value={category.name}>{category.name}</option>
+          ))}
+        </select>
+      )}
+
+      {value.type === 'projects' && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            {value.projectIds.length === 0 ? 'Counting any project, or pick some:' : 'Counting only:'}
+          </span>
+          {projects.map(project => (
+            <button
+              key={project.id}
+              type="button"
+              aria-pressed={value.projectIds.includes(project.id)}
+              onClick={() => onChange({ ...value, projectIds: toggle(value.projectIds, project.id) })}
+              className={chipClass(value.projectIds.includes(project.id))}
+            >
+              {project.name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,86 @@
+'use client'
+
+import { useState } from 'react'
+import { addMonths, eachDayOfInterval, endOfMonth, endOfWeek, format, getDefaultOptions, isSameMonth, startOfMonth, startOfWeek, subMonths } from 'date-fns'
+import { Habit } from '@/lib/types'
+import { isFutureDate, toDateKey, todayKey } from '@/lib/dates'
+import { formatValue, getDayValue, isMeasurable } from '@/lib/habits'
+import { WEEKDAY_LABELS } from '@/lib/schedule'
+
+interface HabitCalendarProps {
+  habit: Habit
+  onToggle: (date: string) => void
+}
+
+export default function HabitCalendar({ habit, onToggle }: HabitCalendarProps) {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()))
+
+  const days = eachDayOfInterval({
+    start: startOfWeek(startOfMonth(month)),
+    end: endOfWeek(endOfMonth(month))
+  })
+  const completed = new Set(habit.completions)
+  const today = todayKey()
+  const isCurrentMonth = isSameMonth(month, new Date())
+  const weekStartsOn = getDefaultOptions().weekStartsOn ?? 0
+  const weekdays = [...WEEKDAY_LABELS.slice(weekStartsOn), ...WEEKDAY_LABELS.slice(0, weekStartsOn)]
+  const monthCount = habit.completions.filter(date => date.startsWith(format(month, 'yyyy-MM'))).length
+
+  return (
+    <div className="mt-3 p-4 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600">
+      <div className="flex items-center justify-between mb-3">
+        <button
+          onClick={() => setMonth(subMonths(month, 1))}
+          aria-label="Previous month"
+          className="px-2 py-1 rounded text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+        >
+          ‹
+        </button>
+        <div className="text-center">
+          <p className="font-semibold text-gray-800 dark:text-white">{format(month, 'MMMM yyyy')}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">{monthCount} check-ins</p>
+        </div>
+        <button
+          onClick={() => setMonth(addMonths(month, 1))}
+          disabled={isCurrentMonth}
+          aria-label="Next month"
+          className="px-2 py-1 rounded text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30"
+        >
+          ›
+        </button>
+      </div>
+      <div className="grid grid-cols-7 gap-1 text-center">
+        {weekdays.map(day => (
+          <span key={day} aria-hidden="true" className="text-xs font-medium text-gray-500 dark:text-gray-400">{day}</span>
+        ))}
+        {days.map(day => {
+          const dateStr = toDateKey(day)
+          const isDone = completed.has(dateStr)
+          const isFuture = isFutureDate(day)
+          const value = isMeasurable(habit) ? getDayValue(habit, dateStr) : 0
+          const isPartial = !isDone && value > 0
+          return (
+            <button
+              key={dateStr}
+              onClick={() => onToggle(dateStr)}
+              disabled={isFuture}
+              aria-pressed={isDone}
+              aria-label={`${habit.name} on ${format(day, 'EEEE, MMMM d, yyyy')}${value > 0 ? `, ${formatValue(habit, value)}` : ''}`}
+              title={`${format(day, 'EEE, MMM d yyyy')}${value > 0 ? ` · ${formatValue(habit, value)}` : ''}`}
+              className={`aspect-square rounded text-xs font-medium transition-colors disabled:cursor-not-allowed ${
+                isDone
+                  ? 'text-white'
+                  : isFuture
+                    ? 'text-gray-300 dark:text-gray-600'
+                    : 'text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'
+              } ${isSameMonth(day, month) ? '' : 'opacity-40'} ${dateStr === today ? 'ring-2 ring-blue-500' : ''}`}
+              style={isDone ? { backgroundColor: habit.color } : isPartial ? { backgroundColor: `${habit.color}55` } : undefined}
+            >
+              {format(day, 'd')}
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
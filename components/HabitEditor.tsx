@@ -0,0 +1,206 @@
+'use client'
+
+import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { DateRange, Habit, HabitSchedule, Project } from '@/lib/types'
+import { COLORS } from '@/lib/colors'
+import { DEFAULT_SCHEDULE } from '@/lib/schedule'
+import { todayKey } from '@/lib/dates'
+import { isValidReminderTime } from '@/lib/reminders'
+import { CategoryInfo, resolveCategoryName } from '@/lib/categories'
+import ScheduleInput from './ScheduleInput'
+import CategoryPicker from './CategoryPicker'
+
+interface HabitEditorProps {
+  habit: Habit
+  categories: CategoryInfo[]
+  projects: Project[]
+  onSave: (habit: Habit) => void
+  onCancel: () => void
+}
+
+const inputClass = 'px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none'
+
+export default function HabitEditor({ habit, categories, projects, onSave, onCancel }: HabitEditorProps) {
+  const [name, setName] = useState(habit.name)
+  const [category, setCategory] = useState(habit.category)
+  const [color, setColor] = useState(habit.color)
+  const [schedule, setSchedule] = useState<HabitSchedule>(habit.schedule ?? DEFAULT_SCHEDULE)
+  const [unit, setUnit] = useState(habit.unit ?? '')
+  const [target, setTarget] = useState(String(habit.dailyTarget ?? 1))
+  const [pauses, setPauses] = useState<DateRange[]>(habit.pauses ?? [])
+  const [pauseStart, setPauseStart] = useState(todayKey())
+  const [pauseEnd, setPauseEnd] = useState(todayKey())
+  const [reminders, setReminders] = useState<string[]>(habit.reminders ?? [])
+  const [reminderTime, setReminderTime] = useState('08:00')
+  const [projectId, setProjectId] = useState(habit.projectId ?? '')
+  // Archived projects stay selectable only for a habit already linked to one.
+  const projectOptions = projects.filter(p => !p.archived || p.id === habit.projectId)
+
+  const addPause = () => {
+    if (pauseStart && pauseEnd && pauseStart <= pauseEnd) {
+      setPauses([...pauses, { start: pauseStart, end: pauseEnd }].sort((a, b) => a.start.localeCompare(b.start)))
+    }
+  }
+
+  const addReminder = () => {
+    if (isValidReminderTime(reminderTime) && !reminders.includes(reminderTime)) {
+      setReminders([...reminders, reminderTime].sort())
+    }
+  }
+
+  const save = () => {
+    if (!name.trim()) return
+    onSave({
+      ...habit,
+      name: name.trim(),
+      category: resolveCategoryName(category, categories.map(c => c.name)),
+      color,
+      schedule,
+      pauses,
+      reminders,
+      projectId: projectId || undefined,
+      ...(habit.kind === 'measure' && {
+        unit: unit.trim() || undefined,
+        dailyTarget: Math.max(1, parseFloat(target) || 1)
+      })
+    })
+  }
+
+  return (
+    <div className="mt-3 p-4 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 space-y-4">
+      <div className="flex flex-col md:flex-row gap-3">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Habit name"
+          aria-label="Habit name"
+          className={`flex-1 ${inputClass}`}
+        />
+        <CategoryPicker value={category} onChange={setCategory} categories={categories} className="flex-1" />
+      </div>
+
+      <div role="group" aria-label="Color" className="flex gap-2">
+        {COLORS.map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setColor(option)}
+            aria-label={option}
+            aria-pressed={color === option}
+            className={`w-7 h-7 rounded-full transition-transform ${color === option ? 'ring-2 ring-offset-2 ring-gray-800 dark:ring-white scale-110' : ''}`}
+            style={{ backgroundColor: option }}
+          />
+        ))}
+      </div>
+
+      <ScheduleInput value={schedule} onChange={setSchedule} />
+
+      <label className="flex flex-wrap items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+        Supports project
+        <select value={projectId} onChange={(e) => setProjectId(e.target.value)} className={inputClass}>
+          <option value="">None</option>
+          {projectOptions.map(project => (
+            <option key={project.id} value={project.id}>{project.name}</option>
+          ))}
+        </select>
+      </label>
+
+      {habit.kind === 'measure' && (
+        <div className="flex gap-3">
+          <input
+            type="number"
+            min={1}
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            placeholder="Daily goal"
+            aria-label="Daily goal"
+            className={`w-28 ${inputClass}`}
+          />
+          <input
+            type="text"
+            value={unit}
+            onChange={(e) => setUnit(e.target.value)}
+            placeholder="Unit"
+            aria-label="Unit"
+            className={inputClass}
+          />
+        </div>
+      )}
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Paused periods</h4>
+        {pauses.length > 0 && (
+          <ul className="space-y-1 mb-2">
+            {pauses.map((pause, index) => (
+              <li key={`${pause.start}-${index}`} className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                <span>
+                  {format(parseISO(pause.start), 'MMM d, yyyy')} – {format(parseISO(pause.end), 'MMM d, yyyy')}
+                </span>
+                <button
+                  onClick={() => setPauses(pauses.filter((_, i) => i !== index))}
+                  aria-label="Remove pause"
+                  className="text-red-500 hover:text-red-700 font-bold"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex flex-wrap items-center gap-2">
+          <input type="date" value={pauseStart} onChange={(e) => setPauseStart(e.target.value)} aria-label="Pause from" className={inputClass} />
+          <span className="text-gray-500">to</span>
+          <input type="date" value={pauseEnd} onChange={(e) => setPauseEnd(e.target.value)} aria-label="Pause until" className={inputClass} />
+          <button
+            onClick={addPause}
+            className="px-3 py-2 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 font-medium"
+          >
+            Add pause
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Reminders</h4>
+        <div className="flex flex-wrap items-center gap-2">
+          {reminders.map(time => (
+            <span
+              key={time}
+              className="flex items-center gap-1 px-2 py-1 rounded-lg bg-gray-100 dark:bg-gray-700 text-sm text-gray-700 dark:text-gray-300"
+            >
+              🔔 {time}
+              <button
+                onClick={() => setReminders(reminders.filter(t => t !== time))}
+                aria-label={`Remove reminder at ${time}`}
+                className="text-red-500 hover:text-red-700 font-bold"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          <input type="time" value={reminderTime} onChange={(e) => setReminderTime(e.target.value)} aria-label="Reminder time" className={inputClass} />
+          <button
+            onClick={addReminder}
+            className="px-3 py-2 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 font-medium"
+          >
+            Add reminder
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-3">
+        <button
+          onClick={save}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+        >
+          Save
+        </button>
+        <button onClick={onCancel} className="px-4 py-2 text-gray-600 dark:text-gray-300 hover:text-gray-800">
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+'use client'
+
+import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Habit } from '@/lib/types'
+import { formatValue, getDayValue, isMeasurable } from '@/lib/habits'
+import { getRecentCheckIns } from '@/lib/habitStats'
+
+interface HabitNotesProps {
+  habit: Habit
+  onChange: (date: string, note: string) => void
+}
+
+const PAGE_SIZE = 20
+
+export default function HabitNotes({ habit, onChange }: HabitNotesProps) {
+  const [visible, setVisible] = useState(PAGE_SIZE)
+  const checkIns = getRecentCheckIns(habit)
+
+  if (checkIns.length === 0) {
+    return <p className="text-gray-500 dark:text-gray-400">No check-ins yet.</p>
+  }
+
+  return (
+    <div>
+      <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+        {checkIns.slice(0, visible).map(date => (
+          <li key={date} className="flex flex-wrap items-center gap-3 py-2">
+            <span className="w-32 text-sm font-medium text-gray-700 dark:text-gray-300">
+              {format(parseISO(date), 'EEE, MMM d yyyy')}
+            </span>
+            {isMeasurable(habit) && (
+              <span className="w-20 text-sm text-gray-500 dark:text-gray-400">{formatValue(habit, getDayValue(habit, date))}</span>
+            )}
+            <input
+              // Remount when the stored note changes so the field never shows a stale draft.
+              key={habit.notes?.[date] ?? ''}
+              type="text"
+              defaultValue={habit.notes?.[date] ?? ''}
+              placeholder="Add a note"
+              aria-label={`Note for ${format(parseISO(date), 'MMMM d, yyyy')}`}
+              onBlur={(e) => {
+                if (e.target.value.trim() !== (habit.notes?.[date] ?? '')) onChange(date, e.target.value)
+              }}
+              onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+              className="flex-1 min-w-[12rem] px-3 py-1 text-sm rounded-lg border border-transparent hover:border-gray-300 dark:hover:border-gray-600 dark:bg-gray-800 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+          </li>
+        ))}
+      </ul>
+      {checkIns.length > visible && (
+        <button
+          onClick={() => setVisible(visible + PAGE_SIZE)}
+          className="mt-3 text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          Show older check-ins
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,227 @@
+'use client'
+
+import { useEffect, useId, useRef, useState } from 'react'
+
+export interface KanbanColumn {
+  id: string
+  title: string
+  color: string
+}
+
+interface KanbanBoardProps<T> {
+  // Names what the cards are, e.g. "projects", for screen reader instructions.
+  label: string
+  columns: KanbanColumn[]
+  items: T[]
+  getId: (item: T) => string
+  getColumn: (item: T) => string
+  getName: (item: T) => string
+  // `index` is the position among the target column's other items.
+  onMove: (id: string, column: string, index: number) => void
+  renderCard: (item: T) => React.ReactNode
+}
+
+interface Lifted {
+  id: string
+  column: string
+  index: number
+  origin: { column: string; index: number }
+}
+
+// Cards can be dragged with the mouse, or picked up with Space or Enter,
+// moved with the arrow keys and dropped with Space or Enter (Escape cancels).
+export default function KanbanBoard<T>({ label, columns, items, getId, getColumn, getName, onMove, renderCard }: KanbanBoardProps<T>) {
+  const instructionsId = useId()
+  const boardRef = useRef<HTMLDivElement>(null)
+  const focusId = useRef<string | null>(null)
+  const [lifted, setLifted] = useState<Lifted | null>(null)
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<{ column: string; index: number } | null>(null)
+  const [announcement, setAnnouncement] = useState('')
+
+  // Cards remount when they change column, so focus is put back after each render.
+  useEffect(() => {
+    if (!focusId.current) return
+    const card = boardRef.current?.querySelector<HTMLElement>(`[data-card-id="${CSS.escape(focusId.current)}"]`)
+    if (card) {
+      card.focus()
+      if (!lifted) focusId.current = null
+    }
+  })
+
+  const columnTitle = (columnId: string) => columns.find(c => c.id === columnId)?.title ?? columnId
+
+  // Items per column, with a keyboard-lifted card shown at its tentative spot.
+  const getColumnItems = (columnId: string) => {
+    const inColumn = items.filter(item => getColumn(item) === columnId && (!lifted || getId(item) !== lifted.id))
+    if (!lifted || lifted.column !== columnId) return inColumn
+    const card = items.find(item => getId(item) === lifted.id)
+    return card ? [...inColumn.slice(0, lifted.index), card, ...inColumn.slice(lifted.index)] : inColumn
+  }
+
+  const describePosition = (columnId: string, index: number, count: number) =>
+    `${columnTitle(columnId)}, position ${index + 1} of ${count}`
+
+  const moveLifted = (current: Lifted, columnOffset: number, indexOffset: number) => {
+    const columnIndex = columns.findIndex(c => c.id === current.column)
+    const nextColumn = columns[Math.min(columns.length - 1, Math.max(0, columnIndex + columnOffset))].id
+    const others = items.filter(item => getColumn(item) === nextColumn && getId(item) !== current.id).length
+    const index = Math.min(others, Math.max(0, columnOffset === 0 ? current.index + indexOffset : current.index))
+    const next = { ...current, column: nextColumn, index }
+    focusId.current = current.id
+    setLifted(next)
+    setAnnouncement(describePosition(nextColumn, index, others + 1))
+  }
+
+  const onCardKeyDown = (e: React.KeyboardEvent, item: T, columnId: string, index: number) => {
+    if (e.target !== e.currentTarget) return
+    const id = getId(item)
+    if (!lifted || lifted.id !== id) {
+      if (e.key === ' ' || e.key === 'Enter') {
+        e.preventDefault()
+        focusId.current = id
+        setLifted({ id, column: columnId, index, origin: { column: columnId, index } })
+        setAnnouncement(`Picked up ${getName(item)}. ${describePosition(columnId, index, getColumnItems(columnId).length)}.`)
+      }
+      return
+    }
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowRight' || e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      e.preventDefault()
+      if (e.key === 'ArrowLeft') moveLifted(lifted, -1, 0)
+      if (e.key === 'ArrowRight') moveLifted(lifted, 1, 0)
+      if (e.key === 'ArrowUp') moveLifted(lifted, 0, -1)
+      if (e.key === 'ArrowDown') moveLifted(lifted, 0, 1)
+    } else if (e.key === ' ' || e.key === 'Enter') {
+      e.preventDefault()
+      focusId.current = id
+      setLifted(null)
+      if (lifted.column !== lifted.origin.column || lifted.index !== lifted.origin.index) onMove(id, lifted.column, lifted.index)
+      setAnnouncement(`Dropped ${getName(item)} in ${columnTitle(lifted.column)}.`)
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      focusId.current = id
+      setLifted(null)
+      setAnnouncement(`Move cancelled. ${getName(item)} stays in ${columnTitle(lifted.origin.column)}.`)
+    }
+  }
+
+  // dragover fires continuously, so state only changes when the target does.
+  const updateDropTarget = (column: string, index: number) => {
+    if (dropTarget?.column !== column || dropTarget.index !== index) setDropTarget({ column, index })
+  }
+
+  const onCardDragOver = (e: React.DragEvent, columnId: string, index: number) => {
+    e.preventDefault()
+    e.stopPropagation()
+    const rect = e.currentTarget.getBoundingClientRect()
+    updateDropTarget(columnId, e.clientY > rect.top + rect.height / 2 ? index + 1 : index)
+  }
+
+  const onDrop = (e: React.DragEvent, columnId: string) => {
+    e.preventDefault()
+    const id = e.dataTransfer.getData('text/plain') || draggingId
+    if (id && dropTarget) {
+      // The dragged card still occupies its old slot while the pointer moves.
+      const current = items.find(item => getId(item) === id)
+      const oldIndex = current && getColumn(current) === columnId ? getColumnItems(columnId).indexOf(current) : -1
+      const index = oldIndex !== -1 && oldIndex < dropTarget.index ? dropTarget.index - 1 : dropTarget.index
+      if (!(oldIndex === index && current && getColumn(current) === columnId)) onMove(id, columnId, index)
+    }
+    setDraggingId(null)
+    setDropTarget(null)
+  }
+
+  return (
+    <div ref={boardRef}>
+      <p id={instructionsId} className="sr-only">
+        Press Space or Enter to pick up one of the {label}. Use the arrow keys to move it between columns or up and down,
+        then press Space or Enter to drop it, or Escape to cancel.
+      </p>
+      <div aria-live="assertive" className="sr-only">{announcement}</div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {columns.map((column, columnIndex) => {
+          const columnItems = getColumnItems(column.id)
+          return (
+            <section
+              key={column.id}
+              aria-label={`${column.title} (${columnItems.length})`}
+              // Cards stop their own dragover, so this only fires over empty space: drop at the end.
+              onDragOver={(e) => {
+                e.preventDefault()
+                updateDropTarget(column.id, columnItems.length)
+              }}
+              onDrop={(e) => onDrop(e, column.id)}
+              className={`rounded-xl p-3 min-h-[8rem] bg-gray-100 dark:bg-gray-900/40 border-t-4 ${
+                dropTarget?.column === column.id ? 'ring-2 ring-blue-400' : ''
+              }`}
+              style={{ borderTopColor: column.color }}
+            >
+              <h3 className="flex justify-between mb-3 font-semibold text-gray-700 dark:text-gray-200">
+                {column.title}
+                <span className="text-sm text-gray-500 dark:text-gray-400">{columnItems.length}</span>
+              </h3>
+              <ul className="space-y-2">
+                {columnItems.map((item, index) => {
+                  const id = getId(item)
+                  const isLifted = lifted?.id === id
+                  return (
+                    <li
+                      key={id}
+                      data-card-id={id}
+                      tabIndex={0}
+                      draggable
+                      aria-roledescription="draggable card"
+                      aria-describedby={instructionsId}
+                      onKeyDown={(e) => onCardKeyDown(e, item, column.id, index)}
+                      onDragStart={(e) => {
+                        e.dataTransfer.setData('text/plain', id)
+                        e.dataTransfer.effectAllowed = 'move'
+                        setDraggingId(id)
+                      }}
+                      onDragEnd={() => {
+                        setDraggingId(null)
+                        setDropTarget(null)
+                      }}
+                      onDragOver={(e) => onCardDragOver(e, column.id, index)}
+                      className={`relative p-3 rounded-lg bg-white dark:bg-gray-700 shadow-sm cursor-grab outline-none focus:ring-2 focus:ring-blue-500 ${
+                        isLifted ? 'ring-2 ring-blue-500 shadow-lg -rotate-1' : ''
+                      } ${draggingId === id ? 'opacity-50' : ''} ${
+                        dropTarget?.column === column.id && dropTarget.index === index && draggingId !== id ? 'border-t-2 border-blue-500' : ''
+                      }`}
+                    >
+                      {renderCard(item)}
+                      <div className="flex justify-end gap-1 mt-2 text-xs">
+                        {columnIndex > 0 && (
+                          <button
+                            type="button"
+                            tabIndex={-1}
+                            onClick={() => onMove(id, columns[columnIndex - 1].id, 0)}
+                            aria-label={`Move ${getName(item)} to ${columns[columnIndex - 1].title}`}
+                            className="px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-200"
+                          >
+                            ←
+                          </button>
+                        )}
+                        {columnIndex < columns.length - 1 && (
+                          <button
+                            type="button"
+                            tabIndex={-1}
+                            onClick={() => onMove(id, columns[columnIndex + 1].id, 0)}
+                            aria-label={`Move ${getName(item)} to ${columns[columnIndex + 1].title}`}
+                            className="px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-200"
+                          >
+                            →
+                          </button>
+                        )}
+                      </div>
+                    </li>
+                  )
+                })}
+              </ul>
+            </section>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
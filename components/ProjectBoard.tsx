@@ -0,0 +1,92 @@
+'use client'
+
+import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Habit, Project, ProjectStatus, Task } from '@/lib/types'
+import { PROJECT_STATUSES, PROJECT_STATUS_LABELS, isAtRisk, isOverdue } from '@/lib/projects'
+import KanbanBoard from './KanbanBoard'
+import TaskBoard from './TaskBoard'
+
+interface ProjectBoardProps {
+  projects: Project[]
+  // Linked habits count towards a project's At Risk badge.
+  habits: Habit[]
+  onMove: (projectId: string, status: ProjectStatus, index: number) => void
+  onTasksChange: (projectId: string, tasks: Task[]) => void
+}
+
+export const PROJECT_STATUS_COLORS: { [status in ProjectStatus]: string } = {
+  'not-started': '#6b7280',
+  'in-progress': '#f59e0b',
+  completed: '#10b981'
+}
+
+export default function ProjectBoard({ projects, habits, onMove, onTasksChange }: ProjectBoardProps) {
+  const [openProjectId, setOpenProjectId] = useState<string | null>(null)
+  const openProject = projects.find(p => p.id === openProjectId)
+
+  return (
+    <>
+      <KanbanBoard
+        label="projects"
+        columns={PROJECT_STATUSES.map(status => ({ id: status, title: PROJECT_STATUS_LABELS[status], color: PROJECT_STATUS_COLORS[status] }))}
+        items={projects}
+        getId={(project) => project.id}
+        getColumn={(project) => project.status}
+        getName={(project) => project.name}
+        onMove={(id, column, index) => {
+          const status = PROJECT_STATUSES.find(s => s === column)
+          if (status) onMove(id, status, index)
+        }}
+        renderCard={(project) => (
+          <>
+            <p className="font-semibold text-gray-800 dark:text-white">{project.name}</p>
+            <div className="flex items-center gap-2 mt-2">
+              <div className="flex-1 bg-gray-200 dark:bg-gray-600 rounded-full h-1.5">
+                <div className="bg-blue-600 h-1.5 rounded-full" style={{ width: `${project.progress}%` }} />
+              </div>
+              <span className="text-xs text-gray-600 dark:text-gray-300">{project.progress}%</span>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+              {isOverdue(project) ? (
+                <span className="px-2 py-0.5 rounded-full font-semibold bg-red-100 text-red-800">Overdue</span>
+              ) : isAtRisk(project, habits) && (
+                <span className="px-2 py-0.5 rounded-full font-semibold bg-orange-100 text-orange-800">At Risk</span>
+              )}
+              {project.dueDate && (
+                <span className="text-gray-500 dark:text-gray-400">Due {format(parseISO(project.dueDate), 'MMM d')}</span>
+              )}
+              <button
+                type="button"
+                onClick={() => setOpenProjectId(openProjectId === project.id ? null : project.id)}
+                aria-expanded={openProjectId === project.id}
+                className="ml-auto font-medium text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                {project.tasks.length > 0 ? `${project.tasks.filter(t => t.completed).length}/${project.tasks.length} tasks` : 'Tasks'}
+              </button>
+            </div>
+          </>
+        )}
+      />
+
+      {openProject && (
+        <div className="mt-6 p-4 rounded-lg bg-gray-50 dark:bg-gray-700">
+          <div className="flex justify-between items-center mb-3">
+            <h3 className="font-bold text-gray-800 dark:text-white">{openProject.name}: tasks</h3>
+            <button
+              onClick={() => setOpenProjectId(null)}
+              className="text-sm font-medium text-gray-500 dark:text-gray-400 hover:text-blue-600"
+            >
+              Close
+            </button>
+          </div>
+          {openProject.tasks.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No tasks yet. Add some in the list view.</p>
+          ) : (
+            <TaskBoard tasks={openProject.tasks} onChange={(tasks) => onTasksChange(openProject.id, tasks)} />
+          )}
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,61 @@
+'use client'
+
+import { useState } from 'react'
+import { Project } from '@/lib/types'
+
+interface ProjectEditorProps {
+  project: Project
+  onSave: (project: Project) => void
+  onCancel: () => void
+}
+
+const inputClass = 'px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-800 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none'
+
+export default function ProjectEditor({ project, onSave, onCancel }: ProjectEditorProps) {
+  const [name, setName] = useState(project.name)
+  const [description, setDescription] = useState(project.description)
+  const [dueDate, setDueDate] = useState(project.dueDate ?? '')
+
+  const save = () => {
+    if (name.trim()) {
+      onSave({ ...project, name: name.trim(), description: description.trim(), dueDate: dueDate || undefined })
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && save()}
+        placeholder="Project name"
+        aria-label="Project name"
+        className={inputClass}
+      />
+      <textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder="Description (optional)"
+        aria-label="Description"
+        rows={2}
+        className={inputClass}
+      />
+      <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+        Due date
+        <input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} className={inputClass} />
+      </label>
+      <div className="flex gap-3">
+        <button
+          onClick={save}
+          className="px-4 py-1 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+        >
+          Save
+        </button>
+        <button onClick={onCancel} className="px-4 py-1 text-gray-600 dark:text-gray-300 hover:text-gray-800">
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
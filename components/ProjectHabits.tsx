@@ -0,0 +1,49 @@
+'use client'
+
+import Link from 'next/link'
+import { Habit } from '@/lib/types'
+import { todayKey } from '@/lib/dates'
+import { describeSchedule, getSchedule } from '@/lib/schedule'
+
+interface ProjectHabitsProps {
+  habits: Habit[]
+  // Percent of expected check-ins over the last two weeks, if any were expected.
+  consistency?: number
+  onToggle: (habitId: string) => void
+}
+
+export default function ProjectHabits({ habits, consistency, onToggle }: ProjectHabitsProps) {
+  const today = todayKey()
+  if (habits.length === 0) return null
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-600">
+      <div className="flex justify-between items-center mb-2">
+        <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Habits</h4>
+        {consistency !== undefined && (
+          <span className={`text-xs ${consistency < 50 ? 'text-orange-600 dark:text-orange-400 font-semibold' : 'text-gray-500 dark:text-gray-400'}`}>
+            {consistency}% consistent over 2 weeks
+          </span>
+        )}
+      </div>
+      <ul className="space-y-1">
+        {habits.map(habit => (
+          <li key={habit.id} className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={habit.completions.includes(today)}
+              onChange={() => onToggle(habit.id)}
+              aria-label={`${habit.name} done today`}
+              className="w-4 h-4 accent-green-500"
+            />
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: habit.color }} aria-hidden="true" />
+            <Link href={`/habits/${habit.id}`} className="flex-1 text-gray-700 dark:text-gray-200 hover:text-blue-600 hover:underline">
+              {habit.name}
+            </Link>
+            <span className="text-xs text-gray-500 dark:text-gray-400">{describeSchedule(getSchedule(habit))}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,88 @@
+'use client'
+
+import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Milestone } from '@/lib/types'
+import { todayKey } from '@/lib/dates'
+
+interface ProjectMilestonesProps {
+  milestones: Milestone[]
+  onChange: (milestones: Milestone[]) => void
+}
+
+export default function ProjectMilestones({ milestones, onChange }: ProjectMilestonesProps) {
+  const [name, setName] = useState('')
+  const [date, setDate] = useState(todayKey())
+  const today = todayKey()
+
+  const addMilestone = () => {
+    if (name.trim() && date) {
+      const milestone: Milestone = { id: Date.now().toString(), name: name.trim(), date, completed: false }
+      onChange([...milestones, milestone].sort((a, b) => a.date.localeCompare(b.date)))
+      setName('')
+    }
+  }
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-600">
+      <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Milestones</h4>
+      {milestones.length > 0 && (
+        <ul className="space-y-1 mb-3">
+          {milestones.map(milestone => (
+            <li key={milestone.id} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={milestone.completed}
+                onChange={() => onChange(milestones.map(m => m.id === milestone.id ? { ...m, completed: !m.completed } : m))}
+                aria-label={`${milestone.name} reached`}
+                className="w-4 h-4 accent-green-500"
+              />
+              <span className="text-purple-500" aria-hidden="true">◆</span>
+              <span className={`flex-1 ${milestone.completed ? 'line-through text-gray-400' : 'text-gray-700 dark:text-gray-200'}`}>
+                {milestone.name}
+              </span>
+              <span className={`text-xs ${
+                !milestone.completed && milestone.date < today
+                  ? 'text-red-600 dark:text-red-400 font-semibold'
+                  : 'text-gray-500 dark:text-gray-400'
+              }`}>
+                {format(parseISO(milestone.date), 'MMM d, yyyy')}
+              </span>
+              <button
+                onClick={() => onChange(milestones.filter(m => m.id !== milestone.id))}
+                aria-label={`Delete milestone ${milestone.name}`}
+                className="text-red-500 hover:text-red-700 font-bold"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          placeholder="Add a milestone"
+          aria-label="Milestone name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyPress={(e) => e.key === 'Enter' && addMilestone()}
+          className="flex-1 px-3 py-1 text-sm rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-800 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+        />
+        <input
+          type="date"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          aria-label="Milestone date"
+          className="px-3 py-1 text-sm rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-800 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+        />
+        <button
+          onClick={addMilestone}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,192 @@
+'use client'
+
+import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Task } from '@/lib/types'
+import { isTaskOverdue } from '@/lib/projects'
+import TaskBoard from './TaskBoard'
+
+interface ProjectTasksProps {
+  tasks: Task[]
+  onChange: (tasks: Task[]) => void
+}
+
+export default function ProjectTasks({ tasks, onChange }: ProjectTasksProps) {
+  const [newTaskName, setNewTaskName] = useState('')
+  const [newTaskDue, setNewTaskDue] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState('')
+  const [view, setView] = useState<'list' | 'board'>('list')
+
+  const addTask = () => {
+    if (newTaskName.trim()) {
+      const newTask: Task = {
+        id: Date.now().toString(),
+        name: newTaskName.trim(),
+        completed: false,
+        dueDate: newTaskDue || undefined
+      }
+      onChange([...tasks, newTask])
+      setNewTaskName('')
+      setNewTaskDue('')
+    }
+  }
+
+  const toggleTask = (taskId: string) => {
+    onChange(tasks.map(task => {
+      if (task.id === taskId) {
+        const completed = !task.completed
+        return { ...task, completed, completedDate: completed ? new Date().toISOString() : undefined }
+      }
+      return task
+    }))
+  }
+
+  const startEditing = (task: Task) => {
+    setEditingId(task.id)
+    setEditingName(task.name)
+  }
+
+  const saveEditing = () => {
+    if (editingId && editingName.trim()) {
+      onChange(tasks.map(task => task.id === editingId ? { ...task, name: editingName.trim() } : task))
+    }
+    setEditingId(null)
+    setEditingName('')
+  }
+
+  const moveTask = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= tasks.length) return
+    const reordered = [...tasks]
+    const [task] = reordered.splice(index, 1)
+    reordered.splice(target, 0, task)
+    onChange(reordered)
+  }
+
+  const deleteTask = (taskId: string) => {
+    onChange(tasks.filter(t => t.id !== taskId))
+  }
+
+  const completedCount = tasks.filter(t => t.completed).length
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-600">
+      <div className="flex justify-between items-center mb-2">
+        <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Tasks</h4>
+        {tasks.length > 0 && (
+          <div className="flex items-center gap-3">
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {completedCount} / {tasks.length} done
+            </span>
+            <div className="flex gap-1 text-xs">
+              {(['list', 'board'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  aria-pressed={view === option}
+                  className={`px-2 py-0.5 rounded capitalize ${
+                    view === option ? 'bg-indigo-600 text-white' : 'text-gray-500 dark:text-gray-400 hover:text-blue-600'
+                  }`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {tasks.length > 0 && view === 'board' && (
+        <div className="mb-3">
+          <TaskBoard tasks={tasks} onChange={onChange} />
+        </div>
+      )}
+
+      {tasks.length > 0 && view === 'list' && (
+        <ul className="space-y-1 mb-3">
+          {tasks.map((task, index) => (
+            <li key={task.id} className="flex items-center gap-2 group">
+              <input
+                type="checkbox"
+                checked={task.completed}
+                onChange={() => toggleTask(task.id)}
+                aria-label={`${task.name} done`}
+                className="w-4 h-4 accent-green-500"
+              />
+              {editingId === task.id ? (
+                <input
+                  type="text"
+                  value={editingName}
+                  autoFocus
+                  onChange={(e) => setEditingName(e.target.value)}
+                  onBlur={saveEditing}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') saveEditing()
+                    if (e.key === 'Escape') setEditingId(null)
+                  }}
+                  className="flex-1 px-2 py-1 text-sm rounded border border-gray-300 dark:border-gray-600 dark:bg-gray-800 dark:text-white outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              ) : (
+                <span
+                  onDoubleClick={() => startEditing(task)}
+                  className={`flex-1 text-sm ${
+                    task.completed
+                      ? 'line-through text-gray-400 dark:text-gray-500'
+                      : 'text-gray-700 dark:text-gray-200'
+                  }`}
+                >
+                  {task.name}
+                </span>
+              )}
+              <input
+                type="date"
+                value={task.dueDate ?? ''}
+                onChange={(e) => onChange(tasks.map(t => t.id === task.id ? { ...t, dueDate: e.target.value || undefined } : t))}
+                title={task.dueDate ? `Due ${format(parseISO(task.dueDate), 'MMM d, yyyy')}` : 'No due date'}
+                aria-label={`${task.name} due date`}
+                className={`px-1 text-xs rounded bg-transparent border-none ${
+                  isTaskOverdue(task)
+                    ? 'text-red-600 dark:text-red-400 font-semibold'
+                    : 'text-gray-500 dark:text-gray-400'
+                }`}
+              />
+              {/* Hidden until hover, but shown whenever one of them has keyboard focus. */}
+              <div className="flex gap-1 text-xs text-gray-500 dark:text-gray-400 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                <button onClick={() => startEditing(task)} aria-label={`Rename ${task.name}`} className="hover:text-blue-600">Edit</button>
+                <button onClick={() => moveTask(index, -1)} disabled={index === 0} aria-label={`Move ${task.name} up`} className="hover:text-blue-600 disabled:opacity-30">↑</button>
+                <button onClick={() => moveTask(index, 1)} disabled={index === tasks.length - 1} aria-label={`Move ${task.name} down`} className="hover:text-blue-600 disabled:opacity-30">↓</button>
+                <button onClick={() => deleteTask(task.id)} aria-label={`Delete task ${task.name}`} className="text-red-500 hover:text-red-700 font-bold">×</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          placeholder="Add a task"
+          aria-label="Task name"
+          value={newTaskName}
+          onChange={(e) => setNewTaskName(e.target.value)}
+          onKeyPress={(e) => e.key === 'Enter' && addTask()}
+          className="flex-1 px-3 py-1 text-sm rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-800 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+        />
+        <input
+          type="date"
+          value={newTaskDue}
+          onChange={(e) => setNewTaskDue(e.target.value)}
+          aria-label="Task due date"
+          className="px-3 py-1 text-sm rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-800 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+        />
+        <button
+          onClick={addTask}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,154 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Project, TimeEntry } from '@/lib/types'
+import { todayKey } from '@/lib/dates'
+import { createManualEntry, formatDuration, formatTimer, getEntryMinutes, getProjectMinutes, getRunningEntry, getTaskMinutes } from '@/lib/timeTracking'
+
+interface ProjectTimeProps {
+  project: Project
+  onStart: (taskId?: string) => void
+  onStop: () => void
+  onChange: (timeEntries: TimeEntry[]) => void
+}
+
+const inputClass = 'px-3 py-1 text-sm rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-800 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none'
+
+export default function ProjectTime({ project, onStart, onStop, onChange }: ProjectTimeProps) {
+  const [now, setNow] = useState(() => new Date())
+  const [taskId, setTaskId] = useState('')
+  const [date, setDate] = useState(todayKey())
+  const [hours, setHours] = useState('')
+  const [showEntries, setShowEntries] = useState(false)
+  const running = getRunningEntry(project)
+  const entries = project.timeEntries ?? []
+  const openTasks = project.tasks.filter(t => !t.completed)
+  const taskName = (id?: string) => project.tasks.find(t => t.id === id)?.name
+
+  // Only tick while this project's timer runs.
+  useEffect(() => {
+    if (!running) return
+    setNow(new Date())
+    const interval = setInterval(() => setNow(new Date()), 1000)
+    return () => clearInterval(interval)
+  }, [running?.id])
+
+  const addEntry = () => {
+    const minutes = Math.round(parseFloat(hours) * 60)
+    if (!(minutes > 0) || !date) return
+    onChange([...entries, createManualEntry(date, minutes, taskId || undefined)])
+    setHours('')
+  }
+
+  const total = getProjectMinutes(project, now)
+  const perTask = project.status === 'completed' ? getTaskMinutes(project, now) : []
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-600">
+      <div className="flex justify-between items-center mb-2">
+        <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Time</h4>
+        {total > 0 && (
+          <span className="text-xs text-gray-500 dark:text-gray-400">{formatDuration(total)} total</span>
+        )}
+      </div>
+
+      {perTask.length > 0 && (
+        <ul className="mb-3 space-y-1 text-sm">
+          {perTask.map(row => (
+            <li key={row.taskId ?? 'general'} className="flex justify-between text-gray-700 dark:text-gray-200">
+              <span>{row.name}</span>
+              <span className="text-gray-500 dark:text-gray-400">{formatDuration(row.minutes)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap gap-2 items-center">
+        <select
+          value={running ? running.taskId ?? '' : taskId}
+          onChange={(e) => setTaskId(e.target.value)}
+          disabled={!!running}
+          aria-label="Track time for"
+          className={inputClass}
+        >
+          <option value="">Whole project</option>
+          {(running ? project.tasks : openTasks).map(task => (
+            <option key={task.id} value={task.id}>{task.name}</option>
+          ))}
+        </select>
+        {running ? (
+          <button
+            onClick={onStop}
+            className="px-3 py-1 text-sm bg-red-600 text-white rounded-lg font-semibold hover:bg-red-700 transition-colors"
+          >
+            ■ Stop <span className="font-mono">{formatTimer(getEntryMinutes(running, now))}</span>
+          </button>
+        ) : (
+          <button
+            onClick={() => onStart(taskId || undefined)}
+            className="px-3 py-1 text-sm bg-green-600 text-white rounded-lg font-semibold hover:bg-green-700 transition-colors"
+          >
+            ▶ Start timer
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mt-2">
+        <input
+          type="date"
+          value={date}
+          max={todayKey()}
+          onChange={(e) => setDate(e.target.value)}
+          aria-label="Date worked"
+          className={inputClass}
+        />
+        <input
+          type="number"
+          min={0}
+          step={0.25}
+          placeholder="Hours"
+          value={hours}
+          onChange={(e) => setHours(e.target.value)}
+          onKeyPress={(e) => e.key === 'Enter' && addEntry()}
+          aria-label="Hours worked"
+          className={`w-24 ${inputClass}`}
+        />
+        <button
+          onClick={addEntry}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+        >
+          Log time
+        </button>
+        {entries.length > 0 && (
+          <button
+            onClick={() => setShowEntries(!showEntries)}
+            aria-expanded={showEntries}
+            className="ml-auto text-sm font-medium text-gray-500 dark:text-gray-400 hover:text-blue-600"
+          >
+            {showEntries ? 'Hide' : 'Show'} entries ({entries.length})
+          </button>
+        )}
+      </div>
+
+      {showEntries && (
+        <ul className="mt-3 space-y-1 text-sm">
+          {[...entries].sort((a, b) => b.start.localeCompare(a.start)).map(entry => (
+            <li key={entry.id} className="flex items-center gap-2 text-gray-700 dark:text-gray-200">
+              <span className="text-gray-500 dark:text-gray-400">{format(parseISO(entry.start), 'MMM d, HH:mm')}</span>
+              <span className="flex-1">{taskName(entry.taskId) ?? 'Whole project'}</span>
+              <span>{entry.end ? formatDuration(getEntryMinutes(entry, now)) : 'Running'}</span>
+              <button
+                onClick={() => onChange(entries.filter(e => e.id !== entry.id))}
+                aria-label="Delete time entry"
+                className="text-red-500 hover:text-red-700 font-bold"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,119 @@
+'use client'
+
+import { addDays, differenceInCalendarDays, eachMonthOfInterval, format, max, min, parseISO, startOfDay } from 'date-fns'
+import { Project } from '@/lib/types'
+import { isOverdue } from '@/lib/projects'
+
+interface ProjectTimelineProps {
+  projects: Project[]
+}
+
+const WIDTH = 1000
+const LABEL_WIDTH = 180
+const ROW_HEIGHT = 36
+const AXIS_HEIGHT = 28
+
+const STATUS_COLORS = {
+  'not-started': '#6b7280',
+  'in-progress': '#f59e0b',
+  completed: '#10b981'
+}
+
+// Open-ended projects run until today; completed ones end on their endDate.
+const getSpan = (project: Project, today: Date) => {
+  const start = startOfDay(parseISO(project.startDate))
+  const end = project.endDate
+    ? startOfDay(parseISO(project.endDate))
+    : project.dueDate ? parseISO(project.dueDate) : today
+  return { start, end: max([end, start]) }
+}
+
+export default function ProjectTimeline({ projects }: ProjectTimelineProps) {
+  const today = startOfDay(new Date())
+  const spans = projects.map(project => ({ project, ...getSpan(project, today) }))
+  const milestoneDates = projects.flatMap(p => (p.milestones ?? []).map(m => parseISO(m.date)))
+
+  const rangeStart = addDays(min([today, ...spans.map(s => s.start), ...milestoneDates]), -3)
+  const rangeEnd = addDays(max([today, ...spans.map(s => s.end), ...milestoneDates]), 3)
+  const totalDays = Math.max(1, differenceInCalendarDays(rangeEnd, rangeStart))
+  const x = (date: Date) => LABEL_WIDTH + (differenceInCalendarDays(date, rangeStart) / totalDays) * (WIDTH - LABEL_WIDTH)
+  const height = AXIS_HEIGHT + spans.length * ROW_HEIGHT
+
+  const months = eachMonthOfInterval({ start: rangeStart, end: rangeEnd }).filter(m => m >= rangeStart)
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} width="100%" className="text-gray-600 dark:text-gray-300">
+      {months.map(month => (
+        <g key={month.toISOString()}>
+          <line x1={x(month)} x2={x(month)} y1={AXIS_HEIGHT - 6} y2={height} stroke="currentColor" strokeOpacity={0.15} />
+          <text x={x(month) + 4} y={AXIS_HEIGHT - 10} fontSize={12} fill="currentColor">
+            {format(month, 'MMM yyyy')}
+          </text>
+        </g>
+      ))}
+
+      {spans.map(({ project, start, end }, index) => {
+        const y = AXIS_HEIGHT + index * ROW_HEIGHT
+        const overdue = isOverdue(project)
+        const barStart = x(start)
+        const barWidth = Math.max(4, x(addDays(end, 1)) - barStart)
+        return (
+          <g key={project.id}>
+            <text x={8} y={y + ROW_HEIGHT / 2 + 4} fontSize={13} fill="currentColor">
+              {project.name.length > 22 ? `${project.name.slice(0, 21)}…` : project.name}
+            </text>
+            <rect
+              x={barStart}
+              y={y + 8}
+              width={barWidth}
+              height={ROW_HEIGHT - 16}
+              rx={4}
+              fill={STATUS_COLORS[project.status]}
+              fillOpacity={0.35}
+              stroke={overdue ? '#ef4444' : STATUS_COLORS[project.status]}
+              strokeWidth={overdue ? 2 : 1}
+            />
+            <rect
+              x={barStart}
+              y={y + 8}
+              width={(barWidth * project.progress) / 100}
+              height={ROW_HEIGHT - 16}
+              rx={4}
+              fill={STATUS_COLORS[project.status]}
+            />
+            {project.dueDate && (
+              <line
+                x1={x(addDays(parseISO(project.dueDate), 1))}
+                x2={x(addDays(parseISO(project.dueDate), 1))}
+                y1={y + 4}
+                y2={y + ROW_HEIGHT - 4}
+                stroke={overdue ? '#ef4444' : '#374151'}
+                strokeWidth={2}
+              >
+                <title>Due {format(parseISO(project.dueDate), 'MMM d, yyyy')}</title>
+              </line>
+            )}
+            {(project.milestones ?? []).map(milestone => {
+              const mx = x(parseISO(milestone.date))
+              const my = y + ROW_HEIGHT / 2
+              return (
+                <path
+                  key={milestone.id}
+                  d={`M ${mx} ${my - 7} L ${mx + 7} ${my} L ${mx} ${my + 7} L ${mx - 7} ${my} Z`}
+                  fill={milestone.completed ? '#10b981' : '#8b5cf6'}
+                  stroke="white"
+                  strokeWidth={1}
+                >
+                  <title>{milestone.name} · {format(parseISO(milestone.date), 'MMM d, yyyy')}</title>
+                </path>
+              )
+            })}
+          </g>
+        )
+      })}
+
+      <line x1={x(today)} x2={x(today)} y1={AXIS_HEIGHT - 6} y2={height} stroke="#ef4444" strokeDasharray="4 3" strokeWidth={2} />
+      <text x={x(today) + 4} y={height - 4} fontSize={11} fill="#ef4444">today</text>
+    </svg>
+  )
+}
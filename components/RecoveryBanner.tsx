@@ -0,0 +1,61 @@
+'use client'
+
+import { format } from 'date-fns'
+import { QuarantinedRecord } from '@/lib/storage'
+import { downloadFile } from '@/lib/download'
+
+interface RecoveryBannerProps {
+  records: QuarantinedRecord[]
+  // Set when stored data could not be read at all and nothing is being saved.
+  loadError?: string | null
+  onDismiss: () => void
+}
+
+export default function RecoveryBanner({ records, loadError, onDismiss }: RecoveryBannerProps) {
+  if (loadError) {
+    return (
+      <div role="alert" className="mb-6 p-4 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-300 dark:border-red-700">
+        <p className="font-semibold text-red-800 dark:text-red-200">
+          Your saved data could not be loaded, so changes made now will not be saved.
+        </p>
+        <p className="mt-1 text-sm text-red-700 dark:text-red-300">{loadError}</p>
+        <button
+          onClick={() => window.location.reload()}
+          className="mt-3 px-4 py-2 bg-red-600 text-white rounded-lg font-semibold hover:bg-red-700 transition-colors"
+        >
+          Reload
+        </button>
+      </div>
+    )
+  }
+
+  if (records.length === 0) return null
+
+  return (
+    <div className="mb-6 p-4 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-300 dark:border-amber-700">
+      <p className="font-semibold text-amber-800 dark:text-amber-200">
+        {records.length} saved record{records.length === 1 ? '' : 's'} could not be loaded and {records.length === 1 ? 'was' : 'were'} set aside.
+      </p>
+      <ul className="mt-2 text-sm text-amber-700 dark:text-amber-300 list-disc list-inside">
+        {records.slice(0, 5).map((record, index) => (
+          <li key={index}>{record.key}: {record.error}</li>
+        ))}
+        {records.length > 5 && <li>and {records.length - 5} more</li>}
+      </ul>
+      <div className="flex gap-3 mt-3">
+        <button
+          onClick={() => downloadFile(`tracker-recovered-${format(new Date(), 'yyyy-MM-dd')}.json`, JSON.stringify(records, null, 2), 'application/json')}
+          className="px-4 py-2 bg-amber-600 text-white rounded-lg font-semibold hover:bg-amber-700 transition-colors"
+        >
+          Download raw data
+        </button>
+        <button
+          onClick={onDismiss}
+          className="px-4 py-2 text-amber-800 dark:text-amber-200 hover:underline"
+        >
+          Discard
+        </button>
+      </div>
+    </div>
+  )
+}
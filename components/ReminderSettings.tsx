@@ -0,0 +1,60 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { notificationsSupported, requestNotificationPermission } from '@/lib/notifications'
+import { useStore } from '@/lib/store'
+
+const DEFAULT_DIGEST_TIME = '21:00'
+
+export default function ReminderSettings() {
+  const { settings, updateSettings } = useStore()
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>('default')
+
+  useEffect(() => {
+    setPermission(notificationsSupported() ? Notification.permission : 'unsupported')
+  }, [])
+
+  const enable = async () => setPermission(await requestNotificationPermission())
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-6">
+      <h2 className="text-2xl font-bold mb-2 text-gray-800 dark:text-white">Reminders</h2>
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+        Set reminder times when editing a habit. Notifications are sent while the tracker is open in a tab.
+      </p>
+      <div className="flex flex-wrap items-center gap-4">
+        {permission === 'granted' ? (
+          <span className="text-sm font-medium text-green-600 dark:text-green-400">Notifications on</span>
+        ) : permission === 'denied' ? (
+          <span className="text-sm text-red-600 dark:text-red-400">Notifications are blocked in your browser settings</span>
+        ) : permission === 'unsupported' ? (
+          <span className="text-sm text-gray-500 dark:text-gray-400">This browser doesn't support notifications</span>
+        ) : (
+          <button
+            onClick={enable}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+          >
+            Enable notifications
+          </button>
+        )}
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={!!settings.digestTime}
+            onChange={(e) => updateSettings({ ...settings, digestTime: e.target.checked ? DEFAULT_DIGEST_TIME : undefined })}
+            className="w-4 h-4 accent-blue-600"
+          />
+          End-of-day digest at
+        </label>
+        <input
+          type="time"
+          value={settings.digestTime ?? DEFAULT_DIGEST_TIME}
+          disabled={!settings.digestTime}
+          onChange={(e) => e.target.value && updateSettings({ ...settings, digestTime: e.target.value })}
+          aria-label="Digest time"
+          className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none disabled:opacity-50"
+        />
+      </div>
+    </div>
+  )
+}
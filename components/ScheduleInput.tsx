@@ -0,0 +1,110 @@
+'use client'
+
+import { HabitSchedule } from '@/lib/types'
+import { WEEKDAY_LABELS } from '@/lib/schedule'
+
+interface ScheduleInputProps {
+  value: HabitSchedule
+  onChange: (schedule: HabitSchedule) => void
+}
+
+const inputClass = 'px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none'
+
+export default function ScheduleInput({ value, onChange }: ScheduleInputProps) {
+  const changeType = (type: HabitSchedule['type']) => {
+    switch (type) {
+      case 'daily':
+        return onChange({ type })
+      case 'weekdays':
+        return onChange({ type, days: [1, 3, 5] })
+      case 'times-per-period':
+        return onChange({ type, times: 3, period: 'week' })
+      case 'interval':
+        return onChange({ type, every: 2 })
+    }
+  }
+
+  // At least one day stays selected so a weekday schedule is never empty.
+  const toggleDay = (day: number) => {
+    if (value.type !== 'weekdays') return
+    if (value.days.length === 1 && value.days.includes(day)) return
+    const days = value.days.includes(day)
+      ? value.days.filter(d => d !== day)
+      : [...value.days, day].sort()
+    onChange({ ...value, days })
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <select
+        value={value.type}
+        onChange={(e) => changeType(e.target.value as HabitSchedule['type'])}
+        aria-label="Schedule"
+        className={inputClass}
+      >
+        <option value="daily">Every day</option>
+        <option value="weekdays">Specific weekdays</option>
+        <option value="times-per-period">Times per period</option>
+        <option value="interval">Every N days</option>
+      </select>
+
+      {value.type === 'weekdays' && (
+        <div role="group" aria-label="Weekdays" className="flex gap-1">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleDay(day)}
+              aria-pressed={value.days.includes(day)}
+              className={`px-2 py-1 rounded text-sm font-medium transition-colors ${
+                value.days.includes(day)
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {value.type === 'times-per-period' && (
+        <div className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+          <input
+            type="number"
+            min={1}
+            value={value.times}
+            onChange={(e) => onChange({ ...value, times: Math.max(1, parseInt(e.target.value) || 1) })}
+            aria-label="Times per period"
+            className={`${inputClass} w-20`}
+          />
+          <span>times per</span>
+          <select
+            value={value.period}
+            onChange={(e) => onChange({ ...value, period: e.target.value as 'week' | 'month' })}
+            aria-label="Period"
+            className={inputClass}
+          >
+            <option value="week">week</option>
+            <option value="month">month</option>
+          </select>
+        </div>
+      )}
+
+      {value.type === 'interval' && (
+        <div className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+          <span>every</span>
+          <input
+            type="number"
+            min={1}
+            value={value.every}
+            onChange={(e) => onChange({ ...value, every: Math.max(1, parseInt(e.target.value) || 1) })}
+            aria-label="Days between check-ins"
+            className={`${inputClass} w-20`}
+          />
+          <span>days</span>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+'use client'
+
+import { useState } from 'react'
+import { formatDistanceToNow, parseISO } from 'date-fns'
+import { SYNC_KEY_PATTERN } from '@/lib/sync'
+import { useStore } from '@/lib/store'
+
+export default function SyncPanel() {
+  const { settings, sync, syncStatus, enableSync, disableSync, syncNow } = useStore()
+  const [joinKey, setJoinKey] = useState('')
+  const [copyStatus, setCopyStatus] = useState<'copied' | 'failed' | null>(null)
+
+  const pendingCount = Object.keys(sync.pending).length
+  const joinKeyValid = SYNC_KEY_PATTERN.test(joinKey.trim())
+
+  const copyKey = async () => {
+    if (!settings.syncKey) return
+    // Self-hosted servers often run over plain HTTP, where there is no clipboard API.
+    try {
+      if (!navigator.clipboard) throw new Error('Clipboard unavailable')
+      await navigator.clipboard.writeText(settings.syncKey)
+      setCopyStatus('copied')
+    } catch (e) {
+      console.error('Failed to copy sync code', e)
+      setCopyStatus('failed')
+    }
+    setTimeout(() => setCopyStatus(null), 2000)
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mt-6">
+      <h2 className="text-2xl font-bold mb-2 text-gray-800 dark:text-white">Device Sync</h2>
+      {settings.syncKey ? (
+        <>
+          <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+            Enter this sync code on your other devices. Anyone with the code can read and change your data.
+          </p>
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <code className="px-3 py-2 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200 text-sm">
+              {settings.syncKey}
+            </code>
+            <button onClick={copyKey} className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline">
+              {copyStatus === 'copied' ? 'Copied' : copyStatus === 'failed' ? 'Copy failed' : 'Copy'}
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <span className={`text-sm ${syncStatus.state === 'error' ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-300'}`}>
+              {syncStatus.state === 'syncing'
+                ? 'Syncing…'
+                : syncStatus.state === 'error'
+                  ? `Sync failed: ${syncStatus.error}`
+                  : sync.lastSyncedAt
+                    ? `Synced ${formatDistanceToNow(parseISO(sync.lastSyncedAt), { addSuffix: true })}`
+                    : 'Not synced yet'}
+              {pendingCount > 0 && ` · ${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting`}
+            </span>
+            <button
+              onClick={syncNow}
+              disabled={syncStatus.state === 'syncing'}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              Sync now
+            </button>
+            <button
+              onClick={disableSync}
+              className="px-4 py-2 text-gray-600 dark:text-gray-300 hover:text-gray-800"
+            >
+              Turn off
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+            Keep habits and projects in step across your devices through this server. Data stays on your own host.
+          </p>
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              onClick={() => enableSync()}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+            >
+              Turn on sync
+            </button>
+            <span className="text-sm text-gray-500 dark:text-gray-400">or join with a code</span>
+            <input
+              type="text"
+              placeholder="Sync code from another device"
+              aria-label="Sync code"
+              value={joinKey}
+              onChange={(e) => setJoinKey(e.target.value)}
+              className="flex-1 min-w-[16rem] px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+            <button
+              onClick={() => enableSync(joinKey.trim())}
+              disabled={!joinKeyValid}
+              className="px-4 py-2 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg font-semibold hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            >
+              Join
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+'use client'
+
+import { format, parseISO } from 'date-fns'
+import { Task } from '@/lib/types'
+import { TASK_STATUSES, TASK_STATUS_LABELS, TaskStatus, getTaskStatus, isTaskOverdue, withTaskStatus } from '@/lib/projects'
+import { placeInColumn } from '@/lib/board'
+import KanbanBoard from './KanbanBoard'
+
+interface TaskBoardProps {
+  tasks: Task[]
+  onChange: (tasks: Task[]) => void
+}
+
+const TASK_COLUMN_COLORS: { [status in TaskStatus]: string } = {
+  todo: '#6b7280',
+  'in-progress': '#f59e0b',
+  done: '#10b981'
+}
+
+export default function TaskBoard({ tasks, onChange }: TaskBoardProps) {
+  const moveTask = (taskId: string, column: string, index: number) => {
+    const task = tasks.find(t => t.id === taskId)
+    const status = TASK_STATUSES.find(s => s === column)
+    if (!task || !status) return
+    onChange(placeInColumn(tasks, withTaskStatus(task, status), index, getTaskStatus))
+  }
+
+  return (
+    <KanbanBoard
+      label="tasks"
+      columns={TASK_STATUSES.map(status => ({ id: status, title: TASK_STATUS_LABELS[status], color: TASK_COLUMN_COLORS[status] }))}
+      items={tasks}
+      getId={(task) => task.id}
+      getColumn={getTaskStatus}
+      getName={(task) => task.name}
+      onMove={moveTask}
+      renderCard={(task) => (
+        <>
+          <p className={`text-sm ${task.completed ? 'line-through text-gray-400 dark:text-gray-500' : 'text-gray-800 dark:text-gray-100'}`}>
+            {task.name}
+          </p>
+          {task.dueDate && (
+            <p className={`text-xs mt-1 ${isTaskOverdue(task) ? 'text-red-600 dark:text-red-400 font-semibold' : 'text-gray-500 dark:text-gray-400'}`}>
+              Due {format(parseISO(task.dueDate), 'MMM d')}
+            </p>
+          )}
+        </>
+      )}
+    />
+  )
+}
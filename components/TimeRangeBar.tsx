@@ -0,0 +1,83 @@
+'use client'
+
+import { todayKey } from '@/lib/dates'
+import { TIME_RANGES } from '@/lib/ranges'
+import { getCategoryInfos } from '@/lib/categories'
+import { useStore } from '@/lib/store'
+import { useTimeRange } from '@/lib/useTimeRange'
+import { useCategoryFilter } from '@/lib/useCategoryFilter'
+
+interface TimeRangeBarProps {
+  children?: React.ReactNode
+}
+
+export default function TimeRangeBar({ children }: TimeRangeBarProps) {
+  const { habits, categories, settings, updateSettings } = useStore()
+  const { timeRange, customRange, setTimeRange, setCustomRange } = useTimeRange()
+  const { category, setCategory } = useCategoryFilter()
+  const categoryInfos = getCategoryInfos(categories, habits)
+
+  return (
+    <div className="flex gap-2 mb-6 flex-wrap">
+      {TIME_RANGES.map(range => (
+        <button
+          key={range}
+          onClick={() => setTimeRange(range)}
+          aria-pressed={timeRange === range}
+          className={`px-4 py-2 rounded-lg font-medium capitalize transition-all ${
+            timeRange === range
+              ? 'bg-indigo-600 text-white shadow'
+              : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50'
+          }`}
+        >
+          {range}
+        </button>
+      ))}
+      {timeRange === 'custom' && (
+        <div className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+          <input
+            type="date"
+            value={customRange.start}
+            max={todayKey()}
+            onChange={(e) => e.target.value && setCustomRange({ ...customRange, start: e.target.value })}
+            aria-label="From"
+            className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+          />
+          <span>to</span>
+          <input
+            type="date"
+            value={customRange.end}
+            onChange={(e) => e.target.value && setCustomRange({ ...customRange, end: e.target.value })}
+            aria-label="To"
+            className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+          />
+        </div>
+      )}
+      <select
+        value={settings.weekStartsOn}
+        onChange={(e) => updateSettings({ ...settings, weekStartsOn: e.target.value === '1' ? 1 : 0 })}
+        aria-label="First day of the week"
+        className="px-3 py-2 rounded-lg bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600"
+      >
+        <option value={0}>Weeks start Sunday</option>
+        <option value={1}>Weeks start Monday (ISO)</option>
+      </select>
+      {categoryInfos.length > 0 && (
+        <select
+          value={category ?? ''}
+          onChange={(e) => setCategory(e.target.value || null)}
+          aria-label="Category filter"
+          className={`px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 ${
+            category ? 'bg-indigo-600 text-white' : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+          }`}
+        >
+          <option value="">All categories</option>
+          {categoryInfos.map(info => (
+            <option key={info.name} value={info.name}>{info.name}</option>
+          ))}
+        </select>
+      )}
+      {children}
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { addWeeks, format, parseISO } from 'date-fns'
+import { Project } from '@/lib/types'
+import { todayKey } from '@/lib/dates'
+import { formatDuration, getTimesheet, isRunning } from '@/lib/timeTracking'
+
+interface TimesheetProps {
+  projects: Project[]
+}
+
+export default function Timesheet({ projects }: TimesheetProps) {
+  const [weekOffset, setWeekOffset] = useState(0)
+  const [now, setNow] = useState(() => new Date())
+  const running = projects.some(p => p.timeEntries?.some(isRunning))
+
+  // Ticks every minute so running timers stay current and the sheet moves on
+  // at midnight and at the start of a new week, without re-rendering every second.
+  useEffect(() => {
+    setNow(new Date())
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000)
+    return () => clearInterval(interval)
+  }, [running])
+
+  const sheet = getTimesheet(projects, addWeeks(now, weekOffset), now)
+  const today = todayKey()
+  const cell = (minutes: number) => minutes > 0 ? formatDuration(minutes) : '–'
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-6">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <h2 className="text-2xl font-bold text-gray-800 dark:text-white">Timesheet</h2>
+        <div className="flex items-center gap-2 text-sm">
+          <button
+            onClick={() => setWeekOffset(weekOffset - 1)}
+            aria-label="Previous week"
+            className="px-3 py-1 rounded-lg bg-gray-100 dark:bg-gray-700 dark:text-gray-300 hover:bg-gray-200"
+          >
+            ←
+          </button>
+          <span className="text-gray-700 dark:text-gray-300">
+            {format(parseISO(sheet.days[0]), 'MMM d')} – {format(parseISO(sheet.days[6]), 'MMM d, yyyy')}
+          </span>
+          <button
+            onClick={() => setWeekOffset(weekOffset + 1)}
+            disabled={weekOffset >= 0}
+            aria-label="Next week"
+            className="px-3 py-1 rounded-lg bg-gray-100 dark:bg-gray-700 dark:text-gray-300 hover:bg-gray-200 disabled:opacity-50"
+          >
+            →
+          </button>
+          {weekOffset !== 0 && (
+            <button onClick={() => setWeekOffset(0)} className="font-medium text-blue-600 dark:text-blue-400 hover:underline">
+              This week
+            </button>
+          )}
+        </div>
+      </div>
+      {sheet.rows.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400">No time logged this week.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-gray-700 dark:text-gray-200">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-600">
+                <th scope="col" className="py-2 pr-4 text-left font-semibold">Project</th>
+                {sheet.days.map(day => (
+                  <th
+                    key={day}
+                    scope="col"
+                    className={`py-2 px-2 text-right font-semibold ${day === today ? 'text-blue-600 dark:text-blue-400' : ''}`}
+                  >
+                    {format(parseISO(day), 'EEE d')}
+                  </th>
+                ))}
+                <th scope="col" className="py-2 pl-2 text-right font-semibold">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sheet.rows.map(row => (
+                <tr key={row.projectId} className="border-b border-gray-100 dark:border-gray-700">
+                  <th scope="row" className="py-2 pr-4 text-left font-medium">{row.name}</th>
+                  {row.days.map((minutes, i) => (
+                    <td key={sheet.days[i]} className="py-2 px-2 text-right">{cell(minutes)}</td>
+                  ))}
+                  <td className="py-2 pl-2 text-right font-semibold">{formatDuration(row.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="font-semibold">
+                <th scope="row" className="py-2 pr-4 text-left">Total</th>
+                {sheet.totals.map((minutes, i) => (
+                  <td key={sheet.days[i]} className="py-2 px-2 text-right">{cell(minutes)}</td>
+                ))}
+                <td className="py-2 pl-2 text-right">{formatDuration(sheet.total)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,34 @@
+'use client'
+
+import { useEffect } from 'react'
+
+interface UndoToastProps {
+  message: string
+  onUndo: () => void
+  onClose: () => void
+}
+
+const TOAST_MS = 6000
+
+export default function UndoToast({ message, onUndo, onClose }: UndoToastProps) {
+  useEffect(() => {
+    const timer = setTimeout(onClose, TOAST_MS)
+    return () => clearTimeout(timer)
+  }, [message, onClose])
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 px-5 py-3 rounded-xl bg-gray-900 text-white shadow-2xl">
+      <span>{message}</span>
+      <button
+        onClick={() => {
+          onUndo()
+          onClose()
+        }}
+        className="font-semibold text-blue-300 hover:text-blue-200"
+      >
+        Undo
+      </button>
+      <button onClick={onClose} aria-label="Dismiss" className="text-gray-400 hover:text-white font-bold">×</button>
+    </div>
+  )
+}
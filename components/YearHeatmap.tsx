@@ -0,0 +1,232 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { addDays, eachDayOfInterval, format, getDefaultOptions, parseISO, startOfWeek, subYears } from 'date-fns'
+import { Habit } from '@/lib/types'
+import { toDateKey } from '@/lib/dates'
+import { formatValue, getDayValue, isMeasurable } from '@/lib/habits'
+import { hasCompletion } from '@/lib/completionIndex'
+import { WEEKDAY_LABELS, getActiveSince } from '@/lib/schedule'
+import ChartDataTable from './ChartDataTable'
+
+interface YearHeatmapProps {
+  habits: Habit[]
+  onToggle: (habitId: string, date: string) => void
+}
+
+const CELL = 13
+const GAP = 3
+const LEFT = 32
+const TOP = 18
+const OVERALL_COLOR = '#10b981'
+const LEVEL_OPACITY = [0, 0.3, 0.5, 0.75, 1]
+
+// Share of the habits that existed on a day which were checked in, in four steps.
+const getLevel = (done: number, possible: number) =>
+  done === 0 ? 0 : Math.min(4, Math.ceil((done / Math.max(done, possible)) * 4))
+
+export default function YearHeatmap({ habits, onToggle }: YearHeatmapProps) {
+  const [habitId, setHabitId] = useState('all')
+  const [hovered, setHovered] = useState<string | null>(null)
+  const [selected, setSelected] = useState<string | null>(null)
+  // The one day in the tab order; arrow keys move it.
+  const [focused, setFocused] = useState<string | null>(null)
+  const svgRef = useRef<SVGSVGElement>(null)
+
+  const today = new Date()
+  const days = eachDayOfInterval({ start: startOfWeek(addDays(subYears(today, 1), 1)), end: today })
+  const habit = habits.find(h => h.id === habitId)
+  const shown = habit ? [habit] : habits
+  const color = habit?.color ?? OVERALL_COLOR
+  const weekStartsOn = getDefaultOptions().weekStartsOn ?? 0
+  const weekdays = [...WEEKDAY_LABELS.slice(weekStartsOn), ...WEEKDAY_LABELS.slice(0, weekStartsOn)]
+
+  const cells = days.map((day, index) => {
+    const date = toDateKey(day)
+    const possible = shown.filter(h => {
+      const since = getActiveSince(h)
+      return !since || since <= date
+    }).length
+    const done = shown.filter(h => hasCompletion(h, date))
+    const partial = habit && done.length === 0 && isMeasurable(habit) && getDayValue(habit, date) > 0
+    return {
+      date,
+      day,
+      done,
+      level: partial ? 1 : getLevel(done.length, possible),
+      column: Math.floor(index / 7),
+      row: index % 7
+    }
+  })
+  const columns = cells[cells.length - 1].column + 1
+  const width = LEFT + columns * (CELL + GAP)
+  const height = TOP + 7 * (CELL + GAP)
+  const total = cells.reduce((sum, cell) => sum + cell.done.length, 0)
+  const focusedDate = focused ?? cells[cells.length - 1].date
+
+  const months = cells.reduce<{ month: string; checkIns: number; activeDays: number }[]>((list, cell) => {
+    const month = format(cell.day, 'MMM yyyy')
+    if (list[list.length - 1]?.month !== month) list.push({ month, checkIns: 0, activeDays: 0 })
+    const row = list[list.length - 1]
+    row.checkIns += cell.done.length
+    if (cell.done.length > 0) row.activeDays++
+    return list
+  }, [])
+
+  const describe = (date: string) => {
+    const cell = cells.find(c => c.date === date)
+    if (!cell) return ''
+    const names = cell.done.map(h => h.name).join(', ')
+    return `${format(cell.day, 'EEE, MMM d yyyy')} · ${names || 'No check-ins'}`
+  }
+
+  const onCellKeyDown = (e: React.KeyboardEvent, index: number) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault()
+      setSelected(selected === cells[index].date ? null : cells[index].date)
+      return
+    }
+    // Columns are weeks, so left and right jump seven days.
+    const step = { ArrowUp: -1, ArrowDown: 1, ArrowLeft: -7, ArrowRight: 7 }[e.key]
+    const next = step === undefined ? undefined : cells[index + step]
+    if (step !== undefined) e.preventDefault()
+    if (!next) return
+    setFocused(next.date)
+    setHovered(next.date)
+    svgRef.current?.querySelector<SVGRectElement>(`[data-date="${next.date}"]`)?.focus()
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-xl font-bold text-gray-800 dark:text-white">Last 12 Months</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">{total} check-ins</p>
+        </div>
+        <select
+          value={habitId}
+          onChange={(e) => setHabitId(e.target.value)}
+          aria-label="Habit shown"
+          className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+        >
+          <option value="all">All habits</option>
+          {habits.map(h => (
+            <option key={h.id} value={h.id}>{h.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${width} ${height}`}
+        width="100%"
+        className="text-gray-500 dark:text-gray-400"
+        role="group"
+        aria-label="Check-ins per day over the last 12 months"
+        onMouseLeave={() => setHovered(null)}
+      >
+        {cells.filter(cell => cell.row === 0 && cell.day.getDate() <= 7).map(cell => (
+          <text key={cell.date} x={LEFT + cell.column * (CELL + GAP)} y={TOP - 6} fontSize={10} fill="currentColor" aria-hidden="true">
+            {format(cell.day, 'MMM')}
+          </text>
+        ))}
+        {[1, 3, 5].map(row => (
+          <text key={row} x={0} y={TOP + row * (CELL + GAP) + CELL - 3} fontSize={10} fill="currentColor" aria-hidden="true">
+            {weekdays[row]}
+          </text>
+        ))}
+        {cells.map((cell, index) => (
+          <rect
+            key={cell.date}
+            data-date={cell.date}
+            role="button"
+            tabIndex={cell.date === focusedDate ? 0 : -1}
+            aria-label={describe(cell.date)}
+            aria-pressed={cell.date === selected}
+            x={LEFT + cell.column * (CELL + GAP)}
+            y={TOP + cell.row * (CELL + GAP)}
+            width={CELL}
+            height={CELL}
+            rx={2}
+            fill={cell.level > 0 ? color : 'currentColor'}
+            fillOpacity={cell.level > 0 ? LEVEL_OPACITY[cell.level] : 0.12}
+            stroke={cell.date === selected ? '#3b82f6' : 'none'}
+            strokeWidth={2}
+            className="cursor-pointer focus:outline focus:outline-2 focus:outline-blue-500"
+            onMouseEnter={() => setHovered(cell.date)}
+            onFocus={() => setFocused(cell.date)}
+            onKeyDown={(e) => onCellKeyDown(e, index)}
+            onClick={() => {
+              setFocused(cell.date)
+              setSelected(selected === cell.date ? null : cell.date)
+            }}
+          >
+            <title>{describe(cell.date)}</title>
+          </rect>
+        ))}
+      </svg>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 mt-2 text-xs text-gray-500 dark:text-gray-400">
+        <span>{hovered ? describe(hovered) : 'Hover or arrow to a day to see its check-ins, click or press Enter to open it'}</span>
+        <span className="flex items-center gap-1" aria-hidden="true">
+          Less
+          {LEVEL_OPACITY.map((opacity, level) => (
+            <span
+              key={level}
+              className={`inline-block w-3 h-3 rounded-sm ${level === 0 ? 'bg-gray-200 dark:bg-gray-700' : ''}`}
+              style={level > 0 ? { backgroundColor: color, opacity } : undefined}
+            />
+          ))}
+          More
+        </span>
+      </div>
+
+      {selected && (
+        <div className="mt-4 p-4 rounded-lg bg-gray-50 dark:bg-gray-700">
+          <div className="flex justify-between items-center mb-3">
+            <p className="font-semibold text-gray-800 dark:text-white">{format(parseISO(selected), 'EEEE, MMMM d, yyyy')}</p>
+            <button onClick={() => setSelected(null)} aria-label="Close day details" className="text-gray-500 hover:text-gray-700 dark:text-gray-400">×</button>
+          </div>
+          <ul className="space-y-2">
+            {shown.map(h => {
+              const done = hasCompletion(h, selected)
+              const value = isMeasurable(h) ? getDayValue(h, selected) : 0
+              return (
+                <li key={h.id} className="flex items-center gap-3">
+                  <span className="w-3 h-3 rounded-full" style={{ backgroundColor: h.color }} />
+                  <span className="flex-1 text-sm text-gray-700 dark:text-gray-200">
+                    {h.name}
+                    {value > 0 && <span className="text-gray-500 dark:text-gray-400"> · {formatValue(h, value)}</span>}
+                  </span>
+                  <button
+                    onClick={() => onToggle(h.id, selected)}
+                    aria-pressed={done}
+                    aria-label={`${h.name} done on ${format(parseISO(selected), 'MMMM d, yyyy')}`}
+                    className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+                      done
+                        ? 'bg-green-600 text-white hover:bg-green-700'
+                        : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-100'
+                    }`}
+                  >
+                    {done ? '✓ Done' : 'Mark done'}
+                  </button>
+                </li>
+              )
+            })}
+          </ul>
+        </div>
+      )}
+
+      <ChartDataTable
+        caption="Check-ins by month"
+        rows={months}
+        getKey={(row) => row.month}
+        columns={[
+          { label: 'Month', value: (row) => row.month },
+          { label: 'Check-ins', value: (row) => row.checkIns },
+          { label: 'Days with a check-in', value: (row) => row.activeDays }
+        ]}
+      />
+    </div>
+  )
+}
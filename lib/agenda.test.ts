@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { makeHabit, makeProject, makeTask } from './fixtures'
+import { getAgenda } from './agenda'
+
+// A Saturday.
+const now = new Date(2024, 5, 15, 12)
+
+describe('getAgenda', () => {
+  it('includes open tasks without a due date', () => {
+    const agenda = getAgenda([], [makeProject('p', { tasks: [makeTask('a')] })], now)
+    expect(agenda.map(item => [item.key, item.priority])).toEqual([['task-a', 'open']])
+  })
+
+  it('orders overdue, due today, habits, in progress, upcoming and open', () => {
+    const project = makeProject('p', {
+      tasks: [
+        makeTask('open'),
+        makeTask('upcoming', { dueDate: '2024-06-20' }),
+        makeTask('started', { startedDate: '2024-06-14T09:00:00.000Z' }),
+        makeTask('today', { dueDate: '2024-06-15' }),
+        makeTask('late', { dueDate: '2024-06-10' })
+      ]
+    })
+    const agenda = getAgenda([makeHabit('h')], [project], now)
+    expect(agenda.map(item => item.key)).toEqual(['task-late', 'task-today', 'habit-h', 'task-started', 'task-upcoming', 'task-open'])
+  })
+
+  it('keeps items finished today at the bottom and drops older ones', () => {
+    const project = makeProject('p', {
+      tasks: [
+        makeTask('done-today', { completed: true, completedDate: new Date(2024, 5, 15, 9).toISOString() }),
+        makeTask('done-before', { completed: true, completedDate: new Date(2024, 5, 14, 9).toISOString() }),
+        makeTask('open')
+      ]
+    })
+    const agenda = getAgenda([makeHabit('h', { completions: ['2024-06-15'] })], [project], now)
+    expect(agenda.map(item => [item.key, item.done])).toEqual([['task-open', false], ['habit-h', true], ['task-done-today', true]])
+  })
+
+  it('skips archived projects and habits not due today', () => {
+    const agenda = getAgenda(
+      [makeHabit('weekday', { schedule: { type: 'weekdays', days: [1, 2, 3, 4, 5] } }), makeHabit('archived', { archived: true })],
+      [makeProject('p', { archived: true, tasks: [makeTask('a')] })],
+      now
+    )
+    expect(agenda).toEqual([])
+  })
+})
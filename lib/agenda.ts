@@ -0,0 +1,79 @@
+import { addDays, parseISO } from 'date-fns'
+import { Habit, Project, Task } from './types'
+import { toDateKey } from './dates'
+import { hasCompletion } from './completionIndex'
+import { isDueOn } from './schedule'
+import { isTaskOverdue } from './projects'
+
+// Lower ranks come first; finished items drop to the bottom of the list.
+export type AgendaPriority = 'overdue' | 'due-today' | 'habit' | 'in-progress' | 'upcoming' | 'open'
+
+const PRIORITY_RANK: { [priority in AgendaPriority]: number } = {
+  overdue: 0,
+  'due-today': 1,
+  habit: 2,
+  'in-progress': 3,
+  upcoming: 4,
+  open: 5
+}
+
+const UPCOMING_DAYS = 7
+
+export type AgendaItem =
+  | { type: 'habit'; key: string; priority: AgendaPriority; done: boolean; habit: Habit; project?: Project }
+  | { type: 'task'; key: string; priority: AgendaPriority; done: boolean; task: Task; project: Project }
+
+const getTaskPriority = (task: Task, now: Date): AgendaPriority => {
+  const today = toDateKey(now)
+  if (isTaskOverdue(task, now)) return 'overdue'
+  if (task.dueDate === today) return 'due-today'
+  if (task.startedDate) return 'in-progress'
+  if (task.dueDate && task.dueDate <= toDateKey(addDays(now, UPCOMING_DAYS))) return 'upcoming'
+  return 'open'
+}
+
+// Tasks finished today stay on the list, checked, so they can be unticked.
+const getTaskItems = (projects: Project[], now: Date): AgendaItem[] => {
+  const today = toDateKey(now)
+  return projects
+    .filter(project => !project.archived)
+    .flatMap(project => project.tasks.flatMap((task): AgendaItem[] => {
+      if (task.completed) {
+        const finishedToday = !!task.completedDate && toDateKey(parseISO(task.completedDate)) === today
+        const priority = getTaskPriority({ ...task, completed: false }, now)
+        return finishedToday ? [{ type: 'task', key: `task-${task.id}`, priority, done: true, task, project }] : []
+      }
+      return [{ type: 'task', key: `task-${task.id}`, priority: getTaskPriority(task, now), done: false, task, project }]
+    }))
+}
+
+const getHabitItems = (habits: Habit[], projects: Project[], now: Date): AgendaItem[] => {
+  const today = toDateKey(now)
+  return habits
+    .filter(habit => !habit.archived && (isDueOn(habit, now) || hasCompletion(habit, today)))
+    .map(habit => ({
+      type: 'habit',
+      key: `habit-${habit.id}`,
+      priority: 'habit',
+      done: hasCompletion(habit, today),
+      habit,
+      project: projects.find(p => p.id === habit.projectId)
+    }))
+}
+
+// Habits with a reminder come in reminder order; tasks in due date order.
+const sortKey = (item: AgendaItem) =>
+  item.type === 'habit'
+    ? [...(item.habit.reminders ?? [])].sort()[0] ?? '99:99'
+    : item.task.dueDate ?? '9999-99-99'
+
+const getName = (item: AgendaItem) => item.type === 'habit' ? item.habit.name : item.task.name
+
+// Today's habits and every open project task, as one prioritised checklist.
+export const getAgenda = (habits: Habit[], projects: Project[], now: Date = new Date()): AgendaItem[] =>
+  [...getHabitItems(habits, projects, now), ...getTaskItems(projects, now)].sort((a, b) =>
+    Number(a.done) - Number(b.done) ||
+    PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+    sortKey(a).localeCompare(sortKey(b)) ||
+    getName(a).localeCompare(getName(b))
+  )
@@ -0,0 +1,118 @@
+export type StoreName = 'habits' | 'projects' | 'categories' | 'goals'
+
+export interface StoredRecord {
+  id: string
+}
+
+// Raised when a whole store can't be read; carries the raw value for quarantine.
+export class CorruptStoreError extends Error {
+  constructor(message: string, public raw: string) {
+    super(message)
+    this.name = 'CorruptStoreError'
+  }
+}
+
+export interface StorageBackend {
+  readonly name: 'indexeddb' | 'localstorage'
+  read(store: StoreName): Promise<unknown[]>
+  // Backends may use the changed/removed lists or simply rewrite everything.
+  write(store: StoreName, change: { all: StoredRecord[]; changed: StoredRecord[]; removedIds: string[] }): Promise<void>
+  getMeta(key: string): Promise<string | null>
+  setMeta(key: string, value: string | null): Promise<void>
+}
+
+export const createLocalStorageBackend = (): StorageBackend => ({
+  name: 'localstorage',
+  async read(store) {
+    const raw = localStorage.getItem(store)
+    if (!raw) return []
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(raw)
+    } catch (e) {
+      throw new CorruptStoreError(e instanceof Error ? e.message : String(e), raw)
+    }
+    if (!Array.isArray(parsed)) {
+      throw new CorruptStoreError('Stored value is not a list', raw)
+    }
+    return parsed
+  },
+  async write(store, { all }) {
+    localStorage.setItem(store, JSON.stringify(all))
+  },
+  async getMeta(key) {
+    return localStorage.getItem(key)
+  },
+  async setMeta(key, value) {
+    if (value === null) {
+      localStorage.removeItem(key)
+    } else {
+      localStorage.setItem(key, value)
+    }
+  }
+})
+
+const DB_NAME = 'habit-tracker'
+const DB_VERSION = 3
+const META_STORE = 'meta'
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const completion = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    // Stores are added as versions go up, so each one is created only if missing.
+    request.onupgradeneeded = () => {
+      const db = request.result
+      const stores: StoreName[] = ['habits', 'projects', 'categories', 'goals']
+      stores.forEach(store => {
+        if (!db.objectStoreNames.contains(store)) db.createObjectStore(store, { keyPath: 'id' })
+      })
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE)
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+// Each habit and project is its own IndexedDB record, so a toggle writes one row.
+export const createIndexedDbBackend = async (): Promise<StorageBackend> => {
+  const db = await openDatabase()
+  return {
+    name: 'indexeddb',
+    async read(store) {
+      return promisify(db.transaction(store).objectStore(store).getAll())
+    },
+    async write(store, { changed, removedIds }) {
+      if (changed.length === 0 && removedIds.length === 0) return
+      const tx = db.transaction(store, 'readwrite')
+      const objectStore = tx.objectStore(store)
+      changed.forEach(record => objectStore.put(record))
+      removedIds.forEach(id => objectStore.delete(id))
+      await completion(tx)
+    },
+    async getMeta(key) {
+      const value = await promisify(db.transaction(META_STORE).objectStore(META_STORE).get(key))
+      return typeof value === 'string' ? value : null
+    },
+    async setMeta(key, value) {
+      const tx = db.transaction(META_STORE, 'readwrite')
+      if (value === null) {
+        tx.objectStore(META_STORE).delete(key)
+      } else {
+        tx.objectStore(META_STORE).put(value, key)
+      }
+      await completion(tx)
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest'
+import { makeCategory, makeGoal, makeHabit, makeProject, makeTask } from './fixtures'
+import { SCHEMA_VERSION } from './storage'
+import { Backup, applyImport, habitsToCsv, importCategories, importGoals, parseBackup, previewImport } from './backup'
+
+const makeBackup = (changes: Partial<Backup> = {}): Backup => ({
+  version: SCHEMA_VERSION,
+  exportedAt: '2024-06-10T08:00:00.000Z',
+  habits: [],
+  projects: [],
+  categories: [],
+  goals: [],
+  ...changes
+})
+
+describe('parseBackup', () => {
+  it('round-trips an export', () => {
+    const backup = makeBackup({
+      habits: [makeHabit('1', { completions: ['2024-06-01'] })],
+      projects: [makeProject('p', { tasks: [makeTask('t')] })],
+      categories: [makeCategory('c', 'General')],
+      goals: [makeGoal('g')]
+    })
+    expect(parseBackup(JSON.stringify(backup))).toEqual(backup)
+  })
+
+  it('fills in categories and goals missing from older backups', () => {
+    const parsed = parseBackup(JSON.stringify({ version: SCHEMA_VERSION, habits: [], projects: [] }))
+    expect(parsed.categories).toEqual([])
+    expect(parsed.goals).toEqual([])
+    expect(parsed.exportedAt).toBe('')
+  })
+
+  it('rejects files that are not backups', () => {
+    expect(() => parseBackup('nope')).toThrow('not valid JSON')
+    expect(() => parseBackup('{}')).toThrow('not a tracker backup')
+    expect(() => parseBackup(JSON.stringify({ version: SCHEMA_VERSION + 1, habits: [], projects: [] }))).toThrow('newer')
+    expect(() => parseBackup(JSON.stringify({ version: SCHEMA_VERSION, habits: [] }))).toThrow('missing habits or projects')
+  })
+})
+
+describe('applyImport', () => {
+  it('merges check-ins and keeps records only known locally', () => {
+    const result = applyImport(
+      [makeHabit('1', { completions: ['2024-06-01'] }), makeHabit('2')],
+      [],
+      makeBackup({ habits: [makeHabit('1', { completions: ['2024-06-02'] }), makeHabit('3')] }),
+      'merge'
+    )
+    expect(result.habits.map(h => h.id)).toEqual(['1', '2', '3'])
+    expect(result.habits[0].completions).toEqual(['2024-06-01', '2024-06-02'])
+  })
+
+  it('replaces everything with the backup', () => {
+    const backup = makeBackup({ habits: [makeHabit('3')], categories: [makeCategory('c', 'Health')] })
+    expect(applyImport([makeHabit('1')], [makeProject('p')], backup, 'replace')).toEqual({ habits: backup.habits, projects: [] })
+    expect(importCategories([makeCategory('d', 'Work')], backup, 'replace')).toEqual(backup.categories)
+  })
+
+  it('keeps the earliest badge when merging goals', () => {
+    const goals = importGoals(
+      [makeGoal('g', { achievedAt: '2024-06-20' })],
+      makeBackup({ goals: [makeGoal('g', { achievedAt: '2024-06-15' })] }),
+      'merge'
+    )
+    expect(goals[0].achievedAt).toBe('2024-06-15')
+  })
+})
+
+describe('previewImport', () => {
+  const habits = [makeHabit('1', { completions: ['2024-06-01'] }), makeHabit('2')]
+  const projects = [makeProject('p')]
+  const categories = [makeCategory('c1', 'General'), makeCategory('c2', 'Work')]
+  const goals = [makeGoal('g1')]
+  const backup = makeBackup({
+    habits: [makeHabit('1', { completions: ['2024-06-01', '2024-06-02'] }), makeHabit('3', { completions: ['2024-06-03'] })],
+    projects: [makeProject('p')],
+    categories: [makeCategory('c1', 'General', { color: '#ef4444' }), makeCategory('c3', 'Health')],
+    goals: [makeGoal('g2')]
+  })
+
+  it('counts what a merge adds and updates without removing anything', () => {
+    expect(previewImport(habits, projects, categories, goals, backup, 'merge')).toEqual({
+      habitsAdded: 1,
+      habitsUpdated: 1,
+      habitsRemoved: 0,
+      completionsAdded: 2,
+      projectsAdded: 0,
+      projectsUpdated: 0,
+      projectsRemoved: 0,
+      categoriesAdded: 1,
+      categoriesUpdated: 1,
+      categoriesRemoved: 0,
+      goalsAdded: 1,
+      goalsUpdated: 0,
+      goalsRemoved: 0
+    })
+  })
+
+  it('counts what a replace removes', () => {
+    const preview = previewImport(habits, projects, categories, goals, backup, 'replace')
+    expect(preview.habitsRemoved).toBe(1)
+    expect(preview.categoriesRemoved).toBe(1)
+    expect(preview.goalsRemoved).toBe(1)
+  })
+})
+
+describe('habitsToCsv', () => {
+  it('writes one row per sorted check-in and quotes awkward text', () => {
+    const csv = habitsToCsv([makeHabit('1', { name: 'Read, write', completions: ['2024-06-02', '2024-06-01'] })])
+    expect(csv.split('\n')).toEqual([
+      'habit_id,habit,category,date,value,unit,note',
+      '1,"Read, write",General,2024-06-01,1,,',
+      '1,"Read, write",General,2024-06-02,1,,'
+    ])
+  })
+})
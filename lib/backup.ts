@@ -0,0 +1,179 @@
+import { isValid, parseISO } from 'date-fns'
+import { Category, Goal, Habit, Project } from './types'
+import { getDayValue } from './habits'
+import { isObject, validateCategory, validateGoal, validateHabit, validateProject } from './validation'
+import { SCHEMA_VERSION, migrate } from './storage'
+import { mergeGoal, mergeHabit, mergeProject } from './merge'
+
+// Backups carry the storage schema version so older files are migrated on import.
+export interface Backup {
+  version: number
+  exportedAt: string
+  habits: Habit[]
+  projects: Project[]
+  categories: Category[]
+  goals: Goal[]
+}
+
+export type ImportMode = 'replace' | 'merge'
+
+export interface ImportPreview {
+  habitsAdded: number
+  habitsUpdated: number
+  habitsRemoved: number
+  completionsAdded: number
+  projectsAdded: number
+  projectsUpdated: number
+  projectsRemoved: number
+  categoriesAdded: number
+  categoriesUpdated: number
+  categoriesRemoved: number
+  goalsAdded: number
+  goalsUpdated: number
+  goalsRemoved: number
+}
+
+export const createBackup = (habits: Habit[], projects: Project[], categories: Category[], goals: Goal[]): Backup => ({
+  version: SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  habits,
+  projects,
+  categories,
+  goals
+})
+
+export const parseBackup = (text: string): Backup => {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('File is not valid JSON')
+  }
+  if (!isObject(data) || typeof data.version !== 'number') {
+    throw new Error('File is not a tracker backup')
+  }
+  if (data.version > SCHEMA_VERSION) {
+    throw new Error(`Backup version ${data.version} is newer than this app supports`)
+  }
+  if (!Array.isArray(data.habits) || !Array.isArray(data.projects)) {
+    throw new Error('Backup is missing habits or projects')
+  }
+  // Older backups have no categories or goals.
+  const categories = Array.isArray(data.categories) ? data.categories : []
+  const goals = Array.isArray(data.goals) ? data.goals : []
+  const migrated = migrate({ habits: data.habits, projects: data.projects, categories, goals }, data.version)
+  return {
+    version: SCHEMA_VERSION,
+    // Shown in the import preview, so anything that isn't a date is dropped.
+    exportedAt: typeof data.exportedAt === 'string' && isValid(parseISO(data.exportedAt)) ? data.exportedAt : '',
+    habits: migrated.habits.map(validateHabit),
+    projects: migrated.projects.map(validateProject),
+    categories: migrated.categories.map(validateCategory),
+    goals: migrated.goals.map(validateGoal)
+  }
+}
+
+const mergeById = <T extends { id: string }>(current: T[], incoming: T[], merge: (a: T, b: T) => T) => {
+  const incomingById = new Map(incoming.map(item => [item.id, item]))
+  const known = new Set(current.map(item => item.id))
+  return [
+    ...current.map(item => {
+      const other = incomingById.get(item.id)
+      return other ? merge(item, other) : item
+    }),
+    ...incoming.filter(item => !known.has(item.id))
+  ]
+}
+
+export const applyImport = (habits: Habit[], projects: Project[], backup: Backup, mode: ImportMode) =>
+  mode === 'replace'
+    ? { habits: backup.habits, projects: backup.projects }
+    : {
+        habits: mergeById(habits, backup.habits, mergeHabit),
+        projects: mergeById(projects, backup.projects, mergeProject)
+      }
+
+// Registry entries from the backup win; categories only known locally are kept when merging.
+export const importCategories = (categories: Category[], backup: Backup, mode: ImportMode) =>
+  mode === 'replace' ? backup.categories : mergeById(categories, backup.categories, (_, incoming) => incoming)
+
+export const importGoals = (goals: Goal[], backup: Backup, mode: ImportMode) =>
+  mode === 'replace' ? backup.goals : mergeById(goals, backup.goals, mergeGoal)
+
+const countChanges = <T extends { id: string }>(before: T[], after: T[]) => {
+  const beforeById = new Map(before.map(item => [item.id, item]))
+  const afterIds = new Set(after.map(item => item.id))
+  return {
+    added: after.filter(item => !beforeById.has(item.id)).length,
+    updated: after.filter(item => {
+      const previous = beforeById.get(item.id)
+      return previous && JSON.stringify(previous) !== JSON.stringify(item)
+    }).length,
+    removed: before.filter(item => !afterIds.has(item.id)).length
+  }
+}
+
+export const previewImport = (
+  habits: Habit[],
+  projects: Project[],
+  categories: Category[],
+  goals: Goal[],
+  backup: Backup,
+  mode: ImportMode
+): ImportPreview => {
+  const result = applyImport(habits, projects, backup, mode)
+  const habitsById = new Map(habits.map(h => [h.id, h]))
+  const completionsAdded = result.habits.reduce((sum, habit) => {
+    const existing = new Set(habitsById.get(habit.id)?.completions)
+    return sum + habit.completions.filter(d => !existing.has(d)).length
+  }, 0)
+  const habitChanges = countChanges(habits, result.habits)
+  const projectChanges = countChanges(projects, result.projects)
+  const categoryChanges = countChanges(categories, importCategories(categories, backup, mode))
+  const goalChanges = countChanges(goals, importGoals(goals, backup, mode))
+
+  return {
+    habitsAdded: habitChanges.added,
+    habitsUpdated: habitChanges.updated,
+    habitsRemoved: habitChanges.removed,
+    completionsAdded,
+    projectsAdded: projectChanges.added,
+    projectsUpdated: projectChanges.updated,
+    projectsRemoved: projectChanges.removed,
+    categoriesAdded: categoryChanges.added,
+    categoriesUpdated: categoryChanges.updated,
+    categoriesRemoved: categoryChanges.removed,
+    goalsAdded: goalChanges.added,
+    goalsUpdated: goalChanges.updated,
+    goalsRemoved: goalChanges.removed
+  }
+}
+
+const csvCell = (value: string | number | boolean | undefined) => {
+  const text = value === undefined ? '' : String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const toCsv = (header: string[], rows: (string | number | boolean | undefined)[][]) =>
+  [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n')
+
+// One row per completed day; measurable habits also report the logged value.
+export const habitsToCsv = (habits: Habit[]) =>
+  toCsv(
+    ['habit_id', 'habit', 'category', 'date', 'value', 'unit', 'note'],
+    habits.flatMap(habit =>
+      [...habit.completions].sort().map(date => [
+        habit.id, habit.name, habit.category, date, getDayValue(habit, date), habit.unit, habit.notes?.[date]
+      ])
+    )
+  )
+
+export const tasksToCsv = (projects: Project[]) =>
+  toCsv(
+    ['project_id', 'project', 'project_status', 'task_id', 'task', 'completed', 'completed_date'],
+    projects.flatMap(project =>
+      project.tasks.map(task => [
+        project.id, project.name, project.status, task.id, task.name, task.completed, task.completedDate
+      ])
+    )
+  )
@@ -0,0 +1,12 @@
+// Puts `moved` at `index` among the items of its column, keeping every other
+// item (including ones in other columns or hidden from the board) in order.
+export const placeInColumn = <T extends { id: string }>(items: T[], moved: T, index: number, getColumn: (item: T) => string) => {
+  const rest = items.filter(item => item.id !== moved.id)
+  const column = getColumn(moved)
+  const columnItems = rest.filter(item => getColumn(item) === column)
+  const before = columnItems[index]
+  const position = before
+    ? rest.indexOf(before)
+    : columnItems.length > 0 ? rest.indexOf(columnItems[columnItems.length - 1]) + 1 : rest.length
+  return [...rest.slice(0, position), moved, ...rest.slice(position)]
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { Goal } from './types'
+import { makeCategory, makeGoal, makeHabit } from './fixtures'
+import { filterByCategory, getCategoryColor, mergeCategories, resolveCategoryName, upsertCategory } from './categories'
+
+const habit = (id: string, category: string) => makeHabit(id, { category })
+
+const categoryGoal = (id: string, category: string) => makeGoal(id, { target: { type: 'category', category } })
+
+describe('mergeCategories', () => {
+  it('renames a category on its habits, registry entry and goals', () => {
+    const result = mergeCategories(
+      [habit('1', 'Health'), habit('2', 'Work')],
+      [makeCategory('c1', 'Health')],
+      [categoryGoal('g1', 'Health'), categoryGoal('g2', 'Work')],
+      ['Health'],
+      'Fitness'
+    )
+    expect(result.habits.map(h => h.category)).toEqual(['Fitness', 'Work'])
+    expect(result.categories).toEqual([makeCategory('c1', 'Fitness')])
+    expect(result.goals.map(g => g.target)).toEqual([
+      { type: 'category', category: 'Fitness' },
+      { type: 'category', category: 'Work' }
+    ])
+  })
+
+  it('merges into an existing category, keeping its entry and spelling', () => {
+    const result = mergeCategories(
+      [habit('1', 'health'), habit('2', 'Sport'), habit('3', 'Fitness')],
+      [makeCategory('c1', 'health'), makeCategory('c2', 'Fitness', { color: '#ef4444' })],
+      [categoryGoal('g1', 'Sport')],
+      ['health', 'Sport'],
+      'fitness '
+    )
+    expect(result.habits.map(h => h.category)).toEqual(['Fitness', 'Fitness', 'Fitness'])
+    expect(result.categories).toEqual([makeCategory('c2', 'Fitness', { color: '#ef4444' })])
+    expect(result.goals[0].target).toEqual({ type: 'category', category: 'Fitness' })
+  })
+
+  it('matches sources regardless of case and spacing', () => {
+    const result = mergeCategories([habit('1', ' Deep  work')], [], [categoryGoal('g1', 'deep work')], ['Deep work'], 'Focus')
+    expect(result.habits[0].category).toBe('Focus')
+    expect(result.goals[0].target).toEqual({ type: 'category', category: 'Focus' })
+  })
+
+  it('leaves habit and project goals alone', () => {
+    const goals: Goal[] = [
+      { ...categoryGoal('g1', 'Health'), target: { type: 'habits', habitIds: ['1'] } },
+      { ...categoryGoal('g2', 'Health'), target: { type: 'projects', projectIds: [] } }
+    ]
+    const result = mergeCategories([habit('1', 'Health')], [], goals, ['Health'], 'Fitness')
+    expect(result.goals).toEqual(goals)
+  })
+})
+
+describe('resolveCategoryName', () => {
+  it('reuses a known spelling, tidies spacing and defaults blanks', () => {
+    expect(resolveCategoryName('  health ', ['Health'])).toBe('Health')
+    expect(resolveCategoryName('Deep   work', [])).toBe('Deep work')
+    expect(resolveCategoryName('  ', ['Health'])).toBe('General')
+  })
+})
+
+describe('upsertCategory', () => {
+  it('updates a registered category and registers new ones with a derived color', () => {
+    const categories = [makeCategory('c1', 'Health')]
+    expect(upsertCategory(categories, 'health', { weeklyGoal: 5 })).toEqual([makeCategory('c1', 'Health', { weeklyGoal: 5 })])
+    const added = upsertCategory(categories, 'Work', {})
+    expect(added[1]).toMatchObject({ name: 'Work', color: getCategoryColor([], 'Work') })
+  })
+})
+
+describe('filterByCategory', () => {
+  it('matches regardless of case and keeps everything without a filter', () => {
+    const habits = [habit('1', 'Health'), habit('2', 'Work')]
+    expect(filterByCategory(habits, 'HEALTH').map(h => h.id)).toEqual(['1'])
+    expect(filterByCategory(habits, null)).toBe(habits)
+  })
+})
@@ -0,0 +1,91 @@
+import { Category, Goal, Habit } from './types'
+import { COLORS } from './colors'
+import { ResolvedInterval } from './ranges'
+import { getProgress } from './schedule'
+
+export const DEFAULT_CATEGORY = 'General'
+
+// A category as shown in pickers, filters and charts: registry entries plus
+// names habits use that were never registered.
+export interface CategoryInfo {
+  name: string
+  color: string
+  weeklyGoal?: number
+  registered: boolean
+  habitCount: number
+}
+
+// Names compare case- and whitespace-insensitively so "health " matches "Health".
+const normalize = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase()
+
+export const sameCategory = (a: string, b: string) => normalize(a) === normalize(b)
+
+// Unregistered categories get a color derived from the name, so it stays put
+// when habits are added or reordered.
+export const deriveCategoryColor = (name: string) => {
+  let hash = 0
+  for (const char of normalize(name)) hash = (hash * 31 + char.charCodeAt(0)) | 0
+  return COLORS[Math.abs(hash) % COLORS.length]
+}
+
+export const getCategoryColor = (categories: Category[], name: string) =>
+  categories.find(c => sameCategory(c.name, name))?.color ?? deriveCategoryColor(name)
+
+export const getCategoryInfos = (categories: Category[], habits: Habit[]): CategoryInfo[] => {
+  const infos: CategoryInfo[] = categories.map(c => ({
+    name: c.name,
+    color: c.color,
+    weeklyGoal: c.weeklyGoal,
+    registered: true,
+    habitCount: 0
+  }))
+  habits.forEach(habit => {
+    const info = infos.find(i => sameCategory(i.name, habit.category))
+    if (info) {
+      info.habitCount++
+    } else {
+      infos.push({ name: habit.category, color: deriveCategoryColor(habit.category), registered: false, habitCount: 1 })
+    }
+  })
+  return infos.sort((a, b) => a.name.localeCompare(b.name))
+}
+
+// Typed names snap to an existing category's spelling instead of creating a near-duplicate.
+export const resolveCategoryName = (input: string, known: string[]) => {
+  const name = input.trim().replace(/\s+/g, ' ')
+  if (!name) return DEFAULT_CATEGORY
+  return known.find(k => sameCategory(k, name)) ?? name
+}
+
+// Creates or updates the registry entry for a category name.
+export const upsertCategory = (categories: Category[], name: string, changes: Partial<Omit<Category, 'id' | 'name'>>): Category[] => {
+  const existing = categories.find(c => sameCategory(c.name, name))
+  if (existing) return categories.map(c => c === existing ? { ...c, ...changes } : c)
+  return [...categories, { id: Date.now().toString(), name, color: deriveCategoryColor(name), ...changes }]
+}
+
+// Moves every habit and category goal in `sources` to `target`. Renaming is merging
+// a single category into a new name; a target that already exists keeps its own entry.
+export const mergeCategories = (habits: Habit[], categories: Category[], goals: Goal[], sources: string[], target: string) => {
+  const isSource = (name: string) => sources.some(s => sameCategory(s, name))
+  const others = [...categories.map(c => c.name), ...habits.map(h => h.category)].filter(name => !isSource(name))
+  const targetName = resolveCategoryName(target, others)
+  const targetEntry = categories.find(c => !isSource(c.name) && sameCategory(c.name, targetName))
+  const sourceEntry = categories.find(c => isSource(c.name))
+
+  const remaining = categories.filter(c => !isSource(c.name))
+  return {
+    habits: habits.map(h => isSource(h.category) && h.category !== targetName ? { ...h, category: targetName } : h),
+    categories: targetEntry || !sourceEntry ? remaining : [...remaining, { ...sourceEntry, name: targetName }],
+    goals: goals.map(g => g.target.type === 'category' && isSource(g.target.category)
+      ? { ...g, target: { ...g.target, category: targetName } }
+      : g)
+  }
+}
+
+export const filterByCategory = (habits: Habit[], category: string | null) =>
+  category ? habits.filter(h => sameCategory(h.category, category)) : habits
+
+// Check-ins across a category's habits within the interval, for weekly goals.
+export const getCategoryDone = (habits: Habit[], name: string, interval: ResolvedInterval) =>
+  filterByCategory(habits, name).reduce((sum, habit) => sum + getProgress(habit, interval).done, 0)
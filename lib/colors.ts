@@ -0,0 +1,6 @@
+export const COLORS = ['#0ea5e9', '#8b5cf6', '#ec4899', '#f59e0b', '#10b981', '#ef4444', '#6366f1', '#14b8a6']
+
+// The first palette color nobody uses yet, so a new habit doesn't share a color
+// with an existing one until the palette runs out.
+export const nextColor = (used: string[]) =>
+  COLORS.find(color => !used.includes(color)) ?? COLORS[used.length % COLORS.length]
@@ -0,0 +1,55 @@
+import type { Interval } from 'date-fns'
+import { Habit } from './types'
+import { toDateKey } from './dates'
+
+interface HabitIndex {
+  completions: string[]
+  completionSet: Set<string>
+  loggedDates: string[]
+}
+
+// Habits are updated immutably, so an index built for one habit object stays
+// valid for as long as that object is alive.
+const cache = new WeakMap<Habit, HabitIndex>()
+
+const getIndex = (habit: Habit): HabitIndex => {
+  let index = cache.get(habit)
+  if (!index) {
+    const completionSet = new Set(habit.completions)
+    index = {
+      completions: Array.from(completionSet).sort(),
+      completionSet,
+      loggedDates: Object.keys(habit.values ?? {}).sort()
+    }
+    cache.set(habit, index)
+  }
+  return index
+}
+
+// First position in the sorted list whose date is after `key` (or >= when inclusive).
+const bound = (dates: string[], key: string, inclusive: boolean) => {
+  let low = 0
+  let high = dates.length
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (dates[mid] < key || (!inclusive && dates[mid] === key)) low = mid + 1
+    else high = mid
+  }
+  return low
+}
+
+const sliceBetween = (dates: string[], interval: Interval) => {
+  const start = toDateKey(new Date(interval.start))
+  const end = toDateKey(new Date(interval.end))
+  return dates.slice(bound(dates, start, true), bound(dates, end, false))
+}
+
+export const hasCompletion = (habit: Habit, date: string) => getIndex(habit).completionSet.has(date)
+
+export const completionsBetween = (habit: Habit, interval: Interval) =>
+  sliceBetween(getIndex(habit).completions, interval)
+
+export const loggedDatesBetween = (habit: Habit, interval: Interval) =>
+  sliceBetween(getIndex(habit).loggedDates, interval)
+
+export const getSortedCompletions = (habit: Habit) => getIndex(habit).completions
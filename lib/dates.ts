@@ -0,0 +1,11 @@
+import { format, isAfter, parseISO, startOfDay } from 'date-fns'
+
+// Completions are stored as local calendar days, e.g. '2024-01-31'.
+export const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd')
+
+export const todayKey = () => toDateKey(new Date())
+
+export const isFutureDate = (date: Date | string) => {
+  const d = typeof date === 'string' ? parseISO(date) : date
+  return isAfter(startOfDay(d), startOfDay(new Date()))
+}
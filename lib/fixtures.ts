@@ -0,0 +1,63 @@
+import { Category, Goal, Habit, Project, Task } from './types'
+import { Snapshot } from './history'
+import { SyncRequest, SyncResponse } from './sync'
+
+// Minimal valid records for unit tests; pass only the fields a test cares about.
+export const makeHabit = (id: string, changes: Partial<Habit> = {}): Habit => ({
+  id,
+  name: `Habit ${id}`,
+  category: 'General',
+  color: '#3b82f6',
+  completions: [],
+  kind: 'check',
+  ...changes
+})
+
+export const makeTask = (id: string, changes: Partial<Task> = {}): Task => ({
+  id,
+  name: `Task ${id}`,
+  completed: false,
+  ...changes
+})
+
+export const makeProject = (id: string, changes: Partial<Project> = {}): Project => ({
+  id,
+  name: `Project ${id}`,
+  description: '',
+  status: 'in-progress',
+  progress: 0,
+  startDate: '2024-06-01T09:00:00.000Z',
+  tasks: [],
+  ...changes
+})
+
+export const makeCategory = (id: string, name: string, changes: Partial<Category> = {}): Category => ({
+  id,
+  name,
+  color: '#10b981',
+  ...changes
+})
+
+export const makeGoal = (id: string, changes: Partial<Goal> = {}): Goal => ({
+  id,
+  name: `Goal ${id}`,
+  target: { type: 'habits', habitIds: [] },
+  count: 10,
+  start: '2024-06-01',
+  deadline: '2024-06-30',
+  ...changes
+})
+
+export const makeSnapshot = (changes: Partial<Snapshot> = {}): Snapshot => ({
+  habits: [],
+  projects: [],
+  categories: [],
+  goals: [],
+  ...changes
+})
+
+const EMPTY_SYNC_BATCH = { cursor: 0, habits: [], projects: [], categories: [], goals: [], deleted: [] }
+
+export const makeSyncRequest = (changes: Partial<SyncRequest> = {}): SyncRequest => ({ ...EMPTY_SYNC_BATCH, ...changes })
+
+export const makeSyncResponse = (changes: Partial<SyncResponse> = {}): SyncResponse => ({ ...EMPTY_SYNC_BATCH, ...changes })
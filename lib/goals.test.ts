@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { makeGoal, makeHabit, makeProject, makeSnapshot } from './fixtures'
+import { awardBadges, getGoalDone, getGoalProgress } from './goals'
+
+const habit = makeHabit('1', { completions: ['2024-05-31', '2024-06-01', '2024-06-02', '2024-06-03', '2024-07-01'] })
+const goal = makeGoal('g', { target: { type: 'habits', habitIds: ['1'] }, count: 3 })
+
+describe('getGoalDone', () => {
+  it('counts check-ins inside the goal window only', () => {
+    expect(getGoalDone(goal, [habit], [])).toBe(3)
+  })
+
+  it('counts projects completed inside the window', () => {
+    const projects = [
+      makeProject('a', { status: 'completed', endDate: '2024-06-10T12:00:00.000Z' }),
+      makeProject('b', { status: 'completed', endDate: '2024-07-02T12:00:00.000Z' }),
+      makeProject('c', { status: 'completed' })
+    ]
+    expect(getGoalDone(makeGoal('g', { target: { type: 'projects', projectIds: [] } }), [], projects)).toBe(1)
+  })
+})
+
+describe('getGoalProgress', () => {
+  it('projects the finish date from the pace so far', () => {
+    const progress = getGoalProgress(makeGoal('g', { target: { type: 'habits', habitIds: ['1'] } }), [habit], [], new Date(2024, 5, 3, 12))
+    expect(progress).toEqual({ done: 3, percent: 30, status: 'on-track', projectedDate: '2024-06-10' })
+  })
+
+  it('reports missed and upcoming goals', () => {
+    const target = makeGoal('g', { target: { type: 'habits', habitIds: ['1'] }, count: 10 })
+    expect(getGoalProgress(target, [habit], [], new Date(2024, 6, 5)).status).toBe('missed')
+    expect(getGoalProgress(target, [habit], [], new Date(2024, 4, 20)).status).toBe('upcoming')
+  })
+})
+
+describe('awardBadges', () => {
+  it('stamps newly reached goals with today', () => {
+    const goals = awardBadges(makeSnapshot({ habits: [habit], goals: [goal] }), new Date(2024, 5, 3, 12))
+    expect(goals[0].achievedAt).toBe('2024-06-03')
+  })
+
+  it('returns the same array when nothing changed', () => {
+    const snapshot = makeSnapshot({ habits: [], goals: [goal] })
+    expect(awardBadges(snapshot, new Date(2024, 5, 3, 12))).toBe(snapshot.goals)
+  })
+
+  it('does not award a badge after the deadline', () => {
+    const snapshot = makeSnapshot({ habits: [habit], goals: [goal] })
+    expect(awardBadges(snapshot, new Date(2024, 6, 1, 12))).toBe(snapshot.goals)
+  })
+})
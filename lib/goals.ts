@@ -0,0 +1,91 @@
+import { addDays, differenceInCalendarDays, endOfDay, endOfMonth, endOfQuarter, endOfYear, format, parseISO, startOfDay, startOfMonth, startOfQuarter, startOfYear } from 'date-fns'
+import { Goal, GoalTarget, Habit, Project } from './types'
+import { Snapshot } from './history'
+import { toDateKey } from './dates'
+import { getProgress } from './schedule'
+import { filterByCategory } from './categories'
+
+export type GoalStatus = 'achieved' | 'on-track' | 'behind' | 'missed' | 'upcoming'
+
+export interface GoalProgress {
+  done: number
+  percent: number
+  status: GoalStatus
+  // Day the count is reached if the pace so far holds; unset without any progress yet.
+  projectedDate?: string
+}
+
+export interface GoalPreset {
+  label: string
+  start: string
+  deadline: string
+}
+
+export const getGoalPresets = (now: Date = new Date()): GoalPreset[] => [
+  { label: 'This month', start: toDateKey(startOfMonth(now)), deadline: toDateKey(endOfMonth(now)) },
+  { label: 'This quarter', start: toDateKey(startOfQuarter(now)), deadline: toDateKey(endOfQuarter(now)) },
+  { label: 'This year', start: toDateKey(startOfYear(now)), deadline: toDateKey(endOfYear(now)) }
+]
+
+const getGoalHabits = (target: GoalTarget, habits: Habit[]) => {
+  if (target.type === 'habits') return habits.filter(h => target.habitIds.includes(h.id))
+  if (target.type === 'category') return filterByCategory(habits, target.category)
+  return []
+}
+
+// Projects count on the day they reached 100%; ones completed before
+// completion dates were recorded can't be placed in a window and never count.
+export const getGoalDone = (goal: Goal, habits: Habit[], projects: Project[]) => {
+  const { target } = goal
+  if (target.type === 'projects') {
+    return projects.filter(p => {
+      if (p.status !== 'completed' || !p.endDate) return false
+      if (target.projectIds.length > 0 && !target.projectIds.includes(p.id)) return false
+      const day = toDateKey(parseISO(p.endDate))
+      return day >= goal.start && day <= goal.deadline
+    }).length
+  }
+  const interval = { start: startOfDay(parseISO(goal.start)), end: endOfDay(parseISO(goal.deadline)) }
+  return getGoalHabits(target, habits).reduce((sum, habit) => sum + getProgress(habit, interval).done, 0)
+}
+
+export const getGoalProgress = (goal: Goal, habits: Habit[], projects: Project[], now: Date = new Date()): GoalProgress => {
+  const done = getGoalDone(goal, habits, projects)
+  const percent = goal.count > 0 ? Math.min(100, Math.round((done / goal.count) * 100)) : 100
+  const today = toDateKey(now)
+  if (goal.achievedAt || done >= goal.count) return { done, percent, status: 'achieved', projectedDate: goal.achievedAt }
+  if (today > goal.deadline) return { done, percent, status: 'missed' }
+  if (today < goal.start) return { done, percent, status: 'upcoming' }
+
+  const elapsed = differenceInCalendarDays(now, parseISO(goal.start)) + 1
+  const pace = done / elapsed
+  if (pace === 0) return { done, percent, status: 'behind' }
+  const projected = toDateKey(addDays(now, Math.ceil((goal.count - done) / pace)))
+  return { done, percent, status: projected <= goal.deadline ? 'on-track' : 'behind', projectedDate: projected }
+}
+
+// Stamps goals reached in `snapshot` with today's date, returning the same
+// array when nothing new was achieved so unchanged goals aren't re-synced.
+// Check-ins backfilled after the deadline don't earn a badge.
+export const awardBadges = (snapshot: Snapshot, now: Date = new Date()) => {
+  const today = toDateKey(now)
+  let changed = false
+  const goals = snapshot.goals.map(goal => {
+    if (goal.achievedAt || today < goal.start || today > goal.deadline || getGoalDone(goal, snapshot.habits, snapshot.projects) < goal.count) return goal
+    changed = true
+    return { ...goal, achievedAt: today }
+  })
+  return changed ? goals : snapshot.goals
+}
+
+export const describeGoalTarget = (target: GoalTarget, habits: Habit[], projects: Project[]) => {
+  if (target.type === 'category') return `${target.category} habits`
+  if (target.type === 'habits') {
+    const names = habits.filter(h => target.habitIds.includes(h.id)).map(h => h.name)
+    return names.length > 0 ? names.join(', ') : 'No habits'
+  }
+  if (target.projectIds.length === 0) return 'Any project'
+  return projects.filter(p => target.projectIds.includes(p.id)).map(p => p.name).join(', ')
+}
+
+export const formatGoalDate = (date: string) => format(parseISO(date), 'MMM d, yyyy')
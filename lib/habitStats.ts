@@ -0,0 +1,56 @@
+import { eachDayOfInterval, endOfDay, endOfMonth, parseISO, startOfDay, startOfMonth, startOfWeek, subMonths, subWeeks } from 'date-fns'
+import { Habit } from './types'
+import { toDateKey } from './dates'
+import { getSortedCompletions, hasCompletion } from './completionIndex'
+import { WEEKDAY_LABELS, getActiveSince, getDone, getExpected, isPausedOn } from './schedule'
+import { getCompletionTrend } from './trend'
+
+export interface WeekdayStat {
+  day: string
+  completions: number
+  rate: number
+}
+
+const toRate = (done: number, expected: number) =>
+  expected > 0 ? Math.min(100, Math.round((done / expected) * 100)) : 0
+
+const getLifetimeInterval = (habit: Habit, now: Date) => {
+  const since = getActiveSince(habit)
+  return since ? { start: parseISO(since), end: endOfDay(now) } : undefined
+}
+
+export const getLifetimeStats = (habit: Habit, now: Date = new Date()) => {
+  const interval = getLifetimeInterval(habit, now)
+  if (!interval || interval.start > interval.end) return { done: 0, expected: 0, rate: 0 }
+  const done = getDone(habit, interval)
+  const expected = getExpected(habit, interval)
+  return { done, expected: Math.round(expected), rate: toRate(done, expected) }
+}
+
+// Check-ins per weekday, as a share of that weekday's unpaused days since the habit started.
+export const getWeekdayBreakdown = (habit: Habit, now: Date = new Date()): WeekdayStat[] => {
+  const interval = getLifetimeInterval(habit, now)
+  const stats = WEEKDAY_LABELS.map(day => ({ day, completions: 0, days: 0 }))
+  if (interval && interval.start <= interval.end) {
+    eachDayOfInterval(interval).forEach(day => {
+      if (isPausedOn(habit, day)) return
+      const stat = stats[day.getDay()]
+      stat.days++
+      if (hasCompletion(habit, toDateKey(day))) stat.completions++
+    })
+  }
+  const weekStartsOn = startOfWeek(now).getDay()
+  return [...stats.slice(weekStartsOn), ...stats.slice(0, weekStartsOn)]
+    .map(({ day, completions, days }) => ({ day, completions, rate: toRate(completions, days) }))
+}
+
+export const getMonthlyRates = (habit: Habit, months: number = 12, now: Date = new Date()) =>
+  getCompletionTrend([habit], { start: startOfMonth(subMonths(now, months - 1)), end: endOfMonth(now) }, 'month', now)
+
+export const getWeeklyTrend = (habit: Habit, weeks: number = 26, now: Date = new Date()) =>
+  getCompletionTrend([habit], { start: startOfWeek(subWeeks(now, weeks - 1)), end: endOfDay(now) }, 'week', now)
+
+export const getRecentCheckIns = (habit: Habit, now: Date = new Date()) => {
+  const today = toDateKey(startOfDay(now))
+  return getSortedCompletions(habit).filter(date => date <= today).reverse()
+}
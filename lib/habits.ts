@@ -0,0 +1,53 @@
+import type { Interval } from 'date-fns'
+import { Habit } from './types'
+import { completionsBetween, hasCompletion, loggedDatesBetween } from './completionIndex'
+
+export const isMeasurable = (habit: Habit) => habit.kind === 'measure'
+
+export const getDailyTarget = (habit: Habit) => habit.dailyTarget ?? 1
+
+// Check habits count a completed day as 1 so both kinds can be summed.
+export const getDayValue = (habit: Habit, date: string) =>
+  isMeasurable(habit)
+    ? habit.values?.[date] ?? 0
+    : hasCompletion(habit, date) ? 1 : 0
+
+export const setDayValue = (habit: Habit, date: string, value: number): Habit => {
+  const values = { ...habit.values }
+  if (value > 0) {
+    values[date] = value
+  } else {
+    delete values[date]
+  }
+  const others = habit.completions.filter(d => d !== date)
+  const completions = value >= getDailyTarget(habit) ? [...others, date].sort() : others
+  return { ...habit, values, completions }
+}
+
+export const toggleCompletion = (habit: Habit, date: string): Habit => {
+  if (isMeasurable(habit)) {
+    return setDayValue(habit, date, habit.completions.includes(date) ? 0 : getDailyTarget(habit))
+  }
+  const completions = habit.completions.includes(date)
+    ? habit.completions.filter(d => d !== date)
+    : [...habit.completions, date].sort()
+  return { ...habit, completions }
+}
+
+export const setNote = (habit: Habit, date: string, note: string): Habit => {
+  const notes = { ...habit.notes }
+  if (note.trim()) {
+    notes[date] = note.trim()
+  } else {
+    delete notes[date]
+  }
+  return { ...habit, notes }
+}
+
+export const getValueInRange = (habit: Habit, interval: Interval) => {
+  const dates = isMeasurable(habit) ? loggedDatesBetween(habit, interval) : completionsBetween(habit, interval)
+  return dates.reduce((sum, date) => sum + getDayValue(habit, date), 0)
+}
+
+export const formatValue = (habit: Habit, value: number) =>
+  habit.unit ? `${value} ${habit.unit}` : `${value}`
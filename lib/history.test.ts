@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { makeHabit, makeSnapshot, makeSyncResponse } from './fixtures'
+import { applyHistoryChanges } from './history'
+import { applySyncResponse, stampChanges } from './sync'
+
+describe('applyHistoryChanges', () => {
+  it('undoes an add after a sync pull without deleting or rolling back pulled records', () => {
+    const a = makeHabit('a')
+    const b = makeHabit('b')
+    const before = makeSnapshot({ habits: [a] })
+    const after = makeSnapshot({ habits: [a, b] })
+
+    const pulled = applySyncResponse(after, { cursor: 1, pending: {} }, {}, makeSyncResponse({
+      cursor: 4,
+      habits: [makeHabit('a', { name: 'Renamed elsewhere' }), makeHabit('c')]
+    })).snapshot
+
+    const undone = applyHistoryChanges(pulled, after, before)
+    expect(undone.habits.map(h => h.name)).toEqual(['Renamed elsewhere', 'Habit c'])
+
+    // Only the habit the entry added is queued, as a deletion.
+    expect(stampChanges(pulled, undone, {}).pending).toEqual({ 'habits:b': expect.any(String) })
+  })
+
+  it('redoes onto the current records', () => {
+    const a = makeHabit('a')
+    const b = makeHabit('b')
+    const before = makeSnapshot({ habits: [a] })
+    const after = makeSnapshot({ habits: [a, b] })
+    const current = makeSnapshot({ habits: [a, makeHabit('c')] })
+    expect(applyHistoryChanges(current, before, after).habits.map(h => h.id)).toEqual(['a', 'b', 'c'])
+  })
+
+  it('puts a deleted record back in its old place', () => {
+    const [a, b, c] = [makeHabit('a'), makeHabit('b'), makeHabit('c')]
+    const before = makeSnapshot({ habits: [a, b, c] })
+    const after = makeSnapshot({ habits: [a, c] })
+    const current = makeSnapshot({ habits: [a, c, makeHabit('d')] })
+    expect(applyHistoryChanges(current, after, before).habits.map(h => h.id)).toEqual(['a', 'b', 'c', 'd'])
+  })
+
+  it('undoes a reorder', () => {
+    const [a, b] = [makeHabit('a'), makeHabit('b')]
+    const movedB = { ...b, updatedAt: '2024-06-02T10:00:00Z' }
+    const before = makeSnapshot({ habits: [a, b] })
+    const after = makeSnapshot({ habits: [movedB, a] })
+    expect(applyHistoryChanges(after, after, before).habits).toEqual([a, b])
+  })
+
+  it('leaves other stores untouched', () => {
+    const current = makeSnapshot({ habits: [makeHabit('a')] })
+    const undone = applyHistoryChanges(current, makeSnapshot(), makeSnapshot())
+    expect(undone.habits).toBe(current.habits)
+  })
+})
@@ -0,0 +1,94 @@
+import { useCallback, useState } from 'react'
+import { Category, Goal, Habit, Project } from './types'
+
+export interface Snapshot {
+  habits: Habit[]
+  projects: Project[]
+  categories: Category[]
+  goals: Goal[]
+}
+
+export interface HistoryEntry {
+  label: string
+  before: Snapshot
+  after: Snapshot
+  // Consecutive entries with the same key (e.g. dragging a slider) merge into one.
+  coalesceKey?: string
+  at: number
+}
+
+const MAX_ENTRIES = 100
+const COALESCE_MS = 1000
+
+export const useHistory = () => {
+  const [past, setPast] = useState<HistoryEntry[]>([])
+  const [future, setFuture] = useState<HistoryEntry[]>([])
+
+  const record = useCallback((entry: Omit<HistoryEntry, 'at'>) => {
+    const at = Date.now()
+    setPast(current => {
+      const last = current[current.length - 1]
+      if (last && entry.coalesceKey && last.coalesceKey === entry.coalesceKey && at - last.at < COALESCE_MS) {
+        return [...current.slice(0, -1), { ...entry, before: last.before, at }]
+      }
+      return [...current, { ...entry, at }].slice(-MAX_ENTRIES)
+    })
+    setFuture([])
+  }, [])
+
+  const undo = useCallback(() => {
+    const entry = past[past.length - 1]
+    if (!entry) return undefined
+    setPast(past.slice(0, -1))
+    setFuture([entry, ...future])
+    return entry
+  }, [past, future])
+
+  const redo = useCallback(() => {
+    const entry = future[0]
+    if (!entry) return undefined
+    setFuture(future.slice(1))
+    setPast([...past, entry])
+    return entry
+  }, [past, future])
+
+  return {
+    record,
+    undo,
+    redo,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+    nextUndo: past[past.length - 1]?.label,
+    nextRedo: future[0]?.label
+  }
+}
+
+const applyStoreChanges = <T extends { id: string }>(current: T[], from: T[], to: T[]) => {
+  const fromById = new Map(from.map(r => [r.id, r]))
+  const toById = new Map(to.map(r => [r.id, r]))
+  const touched = new Set([...from, ...to].map(r => r.id).filter(id => fromById.get(id) !== toById.get(id)))
+  if (touched.size === 0) return current
+  const present = new Set(current.map(r => r.id))
+  const records = current.flatMap(r => !touched.has(r.id) ? [r] : toById.has(r.id) ? [toById.get(r.id) as T] : [])
+  // Records coming back go in right after the record that preceded them.
+  to.forEach((r, index) => {
+    if (!touched.has(r.id) || present.has(r.id)) return
+    const previous = to.slice(0, index).reverse().find(p => records.some(k => k.id === p.id))
+    records.splice(previous ? records.findIndex(k => k.id === previous.id) + 1 : 0, 0, r)
+  })
+  // Records the entry knows about go back to its order; anything added since
+  // (e.g. pulled from another device) keeps its place.
+  const order = new Map(to.map((r, index) => [r.id, index]))
+  const ordered = records.filter(r => order.has(r.id)).sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0))
+  return records.map(r => order.has(r.id) ? ordered.shift() as T : r)
+}
+
+// Moves the records a history entry changed from `from` to `to` and leaves the
+// rest as they are now. Undoing by restoring a whole snapshot would drop or roll
+// back records that sync pulled in after the entry was recorded.
+export const applyHistoryChanges = (current: Snapshot, from: Snapshot, to: Snapshot): Snapshot => ({
+  habits: applyStoreChanges(current.habits, from.habits, to.habits),
+  projects: applyStoreChanges(current.projects, from.projects, to.projects),
+  categories: applyStoreChanges(current.categories, from.categories, to.categories),
+  goals: applyStoreChanges(current.goals, from.goals, to.goals)
+})
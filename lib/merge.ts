@@ -0,0 +1,36 @@
+import { Goal, Habit, Project, Task } from './types'
+
+// Merges two copies of the same record, with `incoming` winning on plain
+// fields. Check-ins are unioned so neither side ever loses a completed day.
+export const mergeHabit = (current: Habit, incoming: Habit): Habit => {
+  const values = { ...current.values }
+  Object.entries(incoming.values ?? {}).forEach(([date, value]) => {
+    values[date] = Math.max(values[date] ?? 0, value)
+  })
+  return {
+    ...current,
+    ...incoming,
+    completions: Array.from(new Set([...current.completions, ...incoming.completions])).sort(),
+    values,
+    notes: { ...current.notes, ...incoming.notes }
+  }
+}
+
+const mergeTasks = (current: Task[], incoming: Task[]) => {
+  const incomingById = new Map(incoming.map(t => [t.id, t]))
+  const merged = current.map(task => incomingById.get(task.id) ?? task)
+  const known = new Set(current.map(t => t.id))
+  return [...merged, ...incoming.filter(t => !known.has(t.id))]
+}
+
+export const mergeProject = (current: Project, incoming: Project): Project => ({
+  ...current,
+  ...incoming,
+  tasks: mergeTasks(current.tasks, incoming.tasks)
+})
+
+// A badge earned on either side is kept, dated by whichever side earned it first.
+export const mergeGoal = (current: Goal, incoming: Goal): Goal => {
+  const achievedAt = [current.achievedAt, incoming.achievedAt].filter((d): d is string => !!d).sort()[0]
+  return { ...current, ...incoming, achievedAt }
+}
@@ -0,0 +1,37 @@
+// Action buttons are only supported on notifications shown by a service worker.
+interface NotificationAction {
+  action: string
+  title: string
+}
+
+export interface NoticeOptions {
+  body: string
+  tag: string
+  data?: { [key: string]: string }
+  actions?: NotificationAction[]
+}
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window
+
+// The worker caches build assets, which would serve stale code during development.
+export const registerServiceWorker = async () => {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return undefined
+  return navigator.serviceWorker.register('/sw.js')
+}
+
+export const requestNotificationPermission = async () => {
+  if (!notificationsSupported()) return 'denied'
+  const permission = await Notification.requestPermission()
+  if (permission === 'granted') await registerServiceWorker()
+  return permission
+}
+
+export const showNotice = async (title: string, options: NoticeOptions) => {
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined
+  if (registration) {
+    await registration.showNotification(title, options as NotificationOptions)
+    return
+  }
+  const notification = new Notification(title, { body: options.body, tag: options.tag })
+  notification.onclick = () => window.focus()
+}
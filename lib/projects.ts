@@ -0,0 +1,126 @@
+import { differenceInCalendarDays, endOfDay, parseISO, startOfDay, subDays } from 'date-fns'
+import { Habit, Project, ProjectStatus, Task } from './types'
+import { toDateKey } from './dates'
+import { getProgress } from './schedule'
+
+export const PROJECT_STATUSES: ProjectStatus[] = ['not-started', 'in-progress', 'completed']
+
+export const PROJECT_STATUS_LABELS: { [status in ProjectStatus]: string } = {
+  'not-started': 'Not Started',
+  'in-progress': 'In Progress',
+  completed: 'Completed'
+}
+
+export type TaskStatus = 'todo' | 'in-progress' | 'done'
+
+export const TASK_STATUSES: TaskStatus[] = ['todo', 'in-progress', 'done']
+
+export const TASK_STATUS_LABELS: { [status in TaskStatus]: string } = {
+  todo: 'To Do',
+  'in-progress': 'In Progress',
+  done: 'Done'
+}
+
+export const getTaskStatus = (task: Task): TaskStatus =>
+  task.completed ? 'done' : task.startedDate ? 'in-progress' : 'todo'
+
+export const withTaskStatus = (task: Task, status: TaskStatus, now: Date = new Date()): Task => {
+  if (getTaskStatus(task) === status) return task
+  const at = now.toISOString()
+  if (status === 'done') return { ...task, completed: true, completedDate: at, startedDate: task.startedDate ?? at }
+  if (status === 'in-progress') return { ...task, completed: false, completedDate: undefined, startedDate: task.startedDate ?? at }
+  return { ...task, completed: false, completedDate: undefined, startedDate: undefined }
+}
+
+export const statusFromProgress = (progress: number): ProjectStatus =>
+  progress === 0 ? 'not-started' : progress === 100 ? 'completed' : 'in-progress'
+
+// Projects with tasks derive progress and status from task completion;
+// the manual slider only applies to projects without any tasks.
+export const withTasks = (project: Project, tasks: Task[]): Project => {
+  if (tasks.length === 0) {
+    return { ...project, tasks }
+  }
+  const done = tasks.filter(t => t.completed).length
+  const progress = Math.round((done / tasks.length) * 100)
+  const updated = withProgress({ ...project, tasks }, progress)
+  // A started task puts the project in progress before anything is finished.
+  return updated.status === 'not-started' && tasks.some(t => getTaskStatus(t) === 'in-progress')
+    ? { ...updated, status: 'in-progress' }
+    : updated
+}
+
+// Moves a project to a board column. Status follows progress, so the tasks
+// (or, without tasks, the progress) change to match: finishing completes every
+// task, reopening brings back the most recently finished one, and starting
+// picks up the first open task.
+export const withStatus = (project: Project, status: ProjectStatus, now: Date = new Date()): Project => {
+  if (project.status === status) return project
+  const { tasks } = project
+  if (tasks.length === 0) {
+    return withProgress(project, status === 'completed' ? 100 : status === 'not-started' ? 0 : Math.min(99, Math.max(1, project.progress)))
+  }
+  if (status === 'completed') return withTasks(project, tasks.map(t => withTaskStatus(t, 'done', now)))
+  if (status === 'not-started') return withTasks(project, tasks.map(t => withTaskStatus(t, 'todo', now)))
+  if (tasks.every(t => t.completed)) {
+    const latest = [...tasks].sort((a, b) => (b.completedDate ?? '').localeCompare(a.completedDate ?? ''))[0]
+    return withTasks(project, tasks.map(t => t === latest ? withTaskStatus(t, 'in-progress', now) : t))
+  }
+  const first = tasks.find(t => !t.completed)
+  return withTasks(project, tasks.map(t => t === first ? withTaskStatus(t, 'in-progress', now) : t))
+}
+
+export const withProgress = (project: Project, progress: number): Project => {
+  const status = statusFromProgress(progress)
+  return {
+    ...project,
+    progress,
+    status,
+    endDate: progress === 100 ? project.endDate ?? new Date().toISOString() : undefined
+  }
+}
+
+// Due dates are calendar days ('yyyy-MM-dd'), so a project due today isn't late yet.
+export const isOverdue = (project: Project, now: Date = new Date()) =>
+  !!project.dueDate && project.status !== 'completed' && project.dueDate < toDateKey(now)
+
+export const isTaskOverdue = (task: Task, now: Date = new Date()) =>
+  !!task.dueDate && !task.completed && task.dueDate < toDateKey(now)
+
+export const getMissedMilestones = (project: Project, now: Date = new Date()) =>
+  (project.milestones ?? []).filter(m => !m.completed && m.date < toDateKey(now))
+
+export const getLinkedHabits = (project: Project, habits: Habit[]) =>
+  habits.filter(h => h.projectId === project.id && !h.archived)
+
+const CONSISTENCY_DAYS = 14
+
+// Share of the check-ins the linked habits expected over the last two weeks
+// (today is still open, so it isn't counted). Undefined when nothing was expected.
+export const getHabitConsistency = (project: Project, habits: Habit[], now: Date = new Date()) => {
+  const interval = { start: startOfDay(subDays(now, CONSISTENCY_DAYS)), end: endOfDay(subDays(now, 1)) }
+  const totals = getLinkedHabits(project, habits).reduce((sum, habit) => {
+    const { done, target } = getProgress(habit, interval)
+    return { done: sum.done + Math.min(done, target), target: sum.target + target }
+  }, { done: 0, target: 0 })
+  return totals.target > 0 ? Math.round((totals.done / totals.target) * 100) : undefined
+}
+
+const AT_RISK_MARGIN = 20
+const LOW_CONSISTENCY = 50
+
+// A project is at risk when it's behind the pace its due date implies, when
+// a milestone has slipped or when its linked habits are being skipped.
+// Overdue projects are counted separately.
+export const isAtRisk = (project: Project, habits: Habit[] = [], now: Date = new Date()) => {
+  if (project.status === 'completed' || isOverdue(project, now)) return false
+  if (getMissedMilestones(project, now).length > 0) return true
+  const consistency = getHabitConsistency(project, habits, now)
+  if (consistency !== undefined && consistency < LOW_CONSISTENCY) return true
+  if (!project.dueDate) return false
+  const start = parseISO(project.startDate)
+  const total = differenceInCalendarDays(parseISO(project.dueDate), start)
+  if (total <= 0) return false
+  const expected = Math.min(100, (differenceInCalendarDays(now, start) / total) * 100)
+  return project.progress < expected - AT_RISK_MARGIN
+}
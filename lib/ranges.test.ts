@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getDefaultCustomRange, getRangeInterval, parseRangeQuery, toRangeQuery } from './ranges'
+
+const parse = (query: string) => parseRangeQuery(new URLSearchParams(query))
+
+describe('parseRangeQuery', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date(2024, 5, 15, 12))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('defaults to this week and the last two weeks as the custom range', () => {
+    expect(parse('')).toEqual({ range: 'week', custom: { start: '2024-06-02', end: '2024-06-15' } })
+  })
+
+  it('reads named ranges and ignores unknown ones', () => {
+    expect(parse('range=month').range).toBe('month')
+    expect(parse('range=decade').range).toBe('week')
+  })
+
+  it('reads a custom range', () => {
+    expect(parse('range=custom&from=2024-01-05&to=2024-03-01')).toEqual({
+      range: 'custom',
+      custom: { start: '2024-01-05', end: '2024-03-01' }
+    })
+  })
+
+  it('falls back for malformed or impossible dates', () => {
+    const fallback = getDefaultCustomRange()
+    expect(parse('range=custom&from=yesterday&to=2024-06-10').custom).toEqual({ start: fallback.start, end: '2024-06-10' })
+    expect(parse('range=custom&from=2024-99-99&to=2024-01-01').custom).toEqual(fallback)
+    expect(parse('range=custom&from=2024-02-30&to=2024-03-01').custom).toEqual(fallback)
+  })
+
+  it('falls back when from is after to', () => {
+    expect(parse('range=custom&from=2024-03-05&to=2024-03-01').custom).toEqual(getDefaultCustomRange())
+  })
+
+  it('round-trips through toRangeQuery', () => {
+    const custom = { start: '2024-01-05', end: '2024-03-01' }
+    expect(parse(new URLSearchParams(toRangeQuery('custom', custom)).toString())).toEqual({ range: 'custom', custom })
+    expect(toRangeQuery('week', custom)).toEqual({})
+  })
+})
+
+describe('getRangeInterval', () => {
+  it('covers whole days of a custom range and swaps reversed ends', () => {
+    const expected = { start: new Date(2024, 5, 1), end: new Date(2024, 5, 14, 23, 59, 59, 999) }
+    expect(getRangeInterval('custom', { start: '2024-06-01', end: '2024-06-14' })).toEqual(expected)
+    expect(getRangeInterval('custom', { start: '2024-06-14', end: '2024-06-01' })).toEqual(expected)
+  })
+})
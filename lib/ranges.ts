@@ -0,0 +1,96 @@
+import { differenceInCalendarDays, endOfDay, format, endOfMonth, endOfWeek, endOfYear, isValid, parseISO, startOfDay, startOfMonth, startOfWeek, startOfYear, subDays, subMonths, subWeeks, subYears } from 'date-fns'
+import { DateRange } from './types'
+import { toDateKey } from './dates'
+
+export type TimeRange = 'day' | 'week' | 'month' | 'year' | 'custom'
+
+export interface ResolvedInterval {
+  start: Date
+  end: Date
+}
+
+// Week boundaries follow date-fns' default options, see applySettings.
+export const getRangeInterval = (range: TimeRange, custom: DateRange, now: Date = new Date()): ResolvedInterval => {
+  switch (range) {
+    case 'day':
+      return { start: startOfDay(now), end: endOfDay(now) }
+    case 'week':
+      return { start: startOfWeek(now), end: endOfWeek(now) }
+    case 'month':
+      return { start: startOfMonth(now), end: endOfMonth(now) }
+    case 'year':
+      return { start: startOfYear(now), end: endOfYear(now) }
+    case 'custom': {
+      const start = startOfDay(parseISO(custom.start))
+      const end = endOfDay(parseISO(custom.end))
+      return start <= end ? { start, end } : { start: startOfDay(end), end: endOfDay(start) }
+    }
+  }
+}
+
+// The period right before `interval`: the previous calendar unit for named
+// ranges, or the same number of days immediately before a custom range.
+export const getPreviousInterval = (range: TimeRange, interval: ResolvedInterval): ResolvedInterval => {
+  switch (range) {
+    case 'day':
+      return { start: subDays(interval.start, 1), end: subDays(interval.end, 1) }
+    case 'week':
+      return { start: subWeeks(interval.start, 1), end: subWeeks(interval.end, 1) }
+    case 'month':
+      return { start: startOfMonth(subMonths(interval.start, 1)), end: endOfMonth(subMonths(interval.start, 1)) }
+    case 'year':
+      return { start: subYears(interval.start, 1), end: subYears(interval.end, 1) }
+    case 'custom': {
+      const days = differenceInCalendarDays(interval.end, interval.start) + 1
+      return { start: subDays(interval.start, days), end: subDays(interval.end, days) }
+    }
+  }
+}
+
+export const PREVIOUS_LABELS: { [range in TimeRange]: string } = {
+  day: 'yesterday',
+  week: 'last week',
+  month: 'last month',
+  year: 'last year',
+  custom: 'previous period'
+}
+
+export const getRangeLabel = (range: TimeRange, interval: ResolvedInterval) =>
+  range === 'custom' ? `${format(interval.start, 'MMM d')} – ${format(interval.end, 'MMM d')}` : range
+
+export const getPeriodLabel = (range: TimeRange) => range === 'custom' ? 'in range' : `this ${range}`
+
+export const TIME_RANGES: TimeRange[] = ['day', 'week', 'month', 'year', 'custom']
+
+export const DEFAULT_TIME_RANGE: TimeRange = 'week'
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/
+
+// Rejects well-formed but impossible dates like 2024-99-99.
+const isDateKey = (value: string | null): value is string =>
+  !!value && DATE_KEY.test(value) && isValid(parseISO(value))
+
+export const getDefaultCustomRange = (now: Date = new Date()): DateRange => ({
+  start: toDateKey(subDays(now, 13)),
+  end: toDateKey(now)
+})
+
+// Reads ?range=month or ?range=custom&from=yyyy-MM-dd&to=yyyy-MM-dd, falling
+// back to the defaults for anything missing or malformed.
+export const parseRangeQuery = (params: Pick<URLSearchParams, 'get'>) => {
+  const value = params.get('range')
+  const range = TIME_RANGES.find(r => r === value) ?? DEFAULT_TIME_RANGE
+  const from = params.get('from')
+  const to = params.get('to')
+  const fallback = getDefaultCustomRange()
+  const custom: DateRange = {
+    start: isDateKey(from) ? from : fallback.start,
+    end: isDateKey(to) ? to : fallback.end
+  }
+  return { range, custom: custom.start <= custom.end ? custom : fallback }
+}
+
+export const toRangeQuery = (range: TimeRange, custom: DateRange): { [key: string]: string } => {
+  if (range === 'custom') return { range, from: custom.start, to: custom.end }
+  return range === DEFAULT_TIME_RANGE ? {} : { range }
+}
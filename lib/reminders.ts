@@ -0,0 +1,38 @@
+import { format } from 'date-fns'
+import { Habit } from './types'
+import { toDateKey } from './dates'
+import { hasCompletion } from './completionIndex'
+import { isDueOn } from './schedule'
+
+export interface DueReminder {
+  habit: Habit
+  time: string
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+export const isValidReminderTime = (time: string) => TIME_PATTERN.test(time)
+
+// Habits still open today: due, not archived and not yet checked in.
+export const getPendingHabits = (habits: Habit[], now: Date = new Date()) =>
+  habits.filter(habit => !habit.archived && isDueOn(habit, now) && !hasCompletion(habit, toDateKey(now)))
+
+// True when today's `time` falls in (since, now]. Comparing 'yyyy-MM-dd HH:mm'
+// strings keeps a check that spans midnight from firing yesterday's times.
+const hasCrossed = (time: string, since: Date, now: Date) => {
+  const at = `${toDateKey(now)} ${time}`
+  return format(since, 'yyyy-MM-dd HH:mm') < at && at <= format(now, 'yyyy-MM-dd HH:mm')
+}
+
+// One notice per habit even if several of its reminder times passed at once.
+export const getDueReminders = (habits: Habit[], since: Date, now: Date = new Date()): DueReminder[] =>
+  getPendingHabits(habits, now).flatMap(habit => {
+    const time = (habit.reminders ?? []).filter(t => hasCrossed(t, since, now)).pop()
+    return time ? [{ habit, time }] : []
+  })
+
+export const isDigestDue = (digestTime: string | undefined, since: Date, now: Date = new Date()) =>
+  !!digestTime && hasCrossed(digestTime, since, now)
+
+export const describeDigest = (pending: Habit[]) =>
+  `${pending.length} habit${pending.length === 1 ? '' : 's'} still open: ${pending.map(h => h.name).join(', ')}`
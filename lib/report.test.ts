@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { makeCategory, makeHabit, makeProject, makeTask } from './fixtures'
+import { formatRateChange, getReport, reportToMarkdown } from './report'
+
+// Week of Sunday 9 June 2024, reviewed from the following Monday.
+const interval = { start: new Date(2024, 5, 9), end: new Date(2024, 5, 15, 23, 59, 59, 999) }
+const previous = { start: new Date(2024, 5, 2), end: new Date(2024, 5, 8, 23, 59, 59, 999) }
+const now = new Date(2024, 5, 17, 12)
+
+const week = (from: number, to: number) =>
+  Array.from({ length: to - from + 1 }, (_, i) => `2024-06-${String(from + i).padStart(2, '0')}`)
+
+const habits = [
+  makeHabit('run', { name: 'Run', category: 'Health', createdAt: '2024-06-01', completions: [...week(2, 4), ...week(9, 15)] }),
+  makeHabit('read', { name: 'Read | write', category: 'health ', createdAt: '2024-06-01', completions: ['2024-06-10'] }),
+  makeHabit('old', { name: 'Old', archived: true, createdAt: '2024-06-01' })
+]
+
+describe('getReport', () => {
+  const report = getReport(habits, [], [makeCategory('c', 'Health')], interval, previous, now)
+
+  it('rates habits against their target and the previous period', () => {
+    expect(report.habits.map(row => [row.id, row.done, row.target, row.rate, row.previousRate])).toEqual([
+      ['run', 7, 7, 100, 43],
+      ['read', 1, 7, 14, 0]
+    ])
+    expect(report.rate).toBe(57)
+    expect(report.previousRate).toBe(21)
+  })
+
+  it('compares streaks at the start and end of the period', () => {
+    expect(report.habits[0]).toMatchObject({ streakBefore: 0, streakAfter: 7, streakUnit: 'day' })
+  })
+
+  it('groups category spellings together', () => {
+    expect(report.categories).toEqual([{ name: 'Health', done: 8, target: 14, rate: 57 }])
+  })
+
+  it('splits habits into best and worst', () => {
+    expect(report.best.map(row => row.id)).toEqual(['run'])
+    expect(report.worst.map(row => row.id)).toEqual(['read'])
+  })
+
+  it('lists project changes dated inside the period', () => {
+    const projects = [
+      makeProject('new', { startDate: '2024-06-10T09:00:00.000Z' }),
+      makeProject('done', {
+        status: 'completed',
+        endDate: '2024-06-12T09:00:00.000Z',
+        tasks: [makeTask('t', { startedDate: '2024-06-11T09:00:00.000Z' })]
+      })
+    ]
+    const { projects: rows } = getReport([], projects, [], interval, previous, now)
+    expect(rows.map(row => [row.id, row.changes])).toEqual([['new', ['created']], ['done', ['started', 'completed']]])
+  })
+})
+
+describe('reportToMarkdown', () => {
+  it('renders tables and escapes pipes', () => {
+    const markdown = reportToMarkdown(getReport(habits, [], [], interval, previous, now), 'Health')
+    expect(markdown).toContain('# Review: Jun 9, 2024 – Jun 15, 2024')
+    expect(markdown).toContain('Habits in Health')
+    expect(markdown).toContain('| Read \\| write | 1 / 7 | 14% | +14 pts | 0 days (no change) |')
+    expect(markdown).toContain('_No project changes in this period._')
+  })
+})
+
+describe('formatRateChange', () => {
+  it('signs the difference', () => {
+    expect(formatRateChange(50, 40)).toBe('+10 pts')
+    expect(formatRateChange(40, 50)).toBe('-10 pts')
+    expect(formatRateChange(40, 40)).toBe('same as before')
+  })
+})
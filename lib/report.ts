@@ -0,0 +1,235 @@
+import { endOfDay, format, isWithinInterval, min, parseISO, subDays } from 'date-fns'
+import { Category, Habit, Project, ProjectStatus } from './types'
+import { ResolvedInterval } from './ranges'
+import { getProgress } from './schedule'
+import { StreakUnit, formatStreak, getStreakInfo } from './streaks'
+import { resolveCategoryName } from './categories'
+import { PROJECT_STATUS_LABELS } from './projects'
+
+export interface HabitReportRow {
+  id: string
+  name: string
+  category: string
+  done: number
+  target: number
+  rate: number
+  previousRate: number
+  streakBefore: number
+  streakAfter: number
+  streakUnit: StreakUnit
+}
+
+export interface CategoryReportRow {
+  name: string
+  done: number
+  target: number
+  rate: number
+}
+
+// Projects keep no status history, so changes are read from their dates:
+// created (startDate), first task picked up or finished, and completed (endDate).
+export type ProjectChange = 'created' | 'started' | 'completed'
+
+export interface ProjectReportRow {
+  id: string
+  name: string
+  changes: ProjectChange[]
+  status: ProjectStatus
+  progress: number
+}
+
+export interface Report {
+  start: Date
+  end: Date
+  habits: HabitReportRow[]
+  categories: CategoryReportRow[]
+  projects: ProjectReportRow[]
+  best: HabitReportRow[]
+  worst: HabitReportRow[]
+  rate: number
+  previousRate: number
+}
+
+const HIGHLIGHTS = 3
+
+const toRate = (done: number, target: number) => target > 0 ? Math.round((Math.min(done, target) / target) * 100) : 0
+
+// Check-ins beyond a habit's target don't make up for another habit's misses.
+const sumRate = (rows: { done: number; target: number }[]) =>
+  toRate(
+    rows.reduce((sum, row) => sum + Math.min(row.done, row.target), 0),
+    rows.reduce((sum, row) => sum + row.target, 0)
+  )
+
+const getProjectChanges = (project: Project, interval: ResolvedInterval): ProjectChange[] => {
+  const within = (date?: string) => !!date && isWithinInterval(parseISO(date), interval)
+  const firstActivity = project.tasks
+    .flatMap(task => [task.startedDate, task.completedDate])
+    .filter((date): date is string => !!date)
+    .sort()[0]
+  const changes: ProjectChange[] = []
+  if (within(project.startDate)) changes.push('created')
+  if (within(firstActivity)) changes.push('started')
+  if (project.status === 'completed' && within(project.endDate)) changes.push('completed')
+  return changes
+}
+
+export const getReport = (
+  habits: Habit[],
+  projects: Project[],
+  categories: Category[],
+  interval: ResolvedInterval,
+  previousInterval: ResolvedInterval,
+  now: Date = new Date()
+): Report => {
+  // Streaks are compared at the end of the day before the period and at its end (or now).
+  const before = endOfDay(subDays(interval.start, 1))
+  const after = min([interval.end, now])
+  const rows: HabitReportRow[] = habits
+    .map(habit => {
+      const { done, target } = getProgress(habit, interval)
+      const previous = getProgress(habit, previousInterval)
+      const streakAfter = getStreakInfo(habit, after)
+      return {
+        id: habit.id,
+        name: habit.name,
+        category: habit.category,
+        done,
+        target,
+        rate: toRate(done, target),
+        previousRate: toRate(previous.done, previous.target),
+        streakBefore: getStreakInfo(habit, before).current,
+        streakAfter: streakAfter.current,
+        streakUnit: streakAfter.unit
+      }
+    })
+    // Archived habits only appear for periods they were checked in.
+    .filter((row, index) => row.target > 0 && (!habits[index].archived || row.done > 0))
+
+  const byCategory: { [name: string]: CategoryReportRow } = {}
+  rows.forEach(row => {
+    const name = resolveCategoryName(row.category, [...categories.map(c => c.name), ...Object.keys(byCategory)])
+    const total = byCategory[name] ?? { name, done: 0, target: 0, rate: 0 }
+    byCategory[name] = { ...total, done: total.done + Math.min(row.done, row.target), target: total.target + row.target }
+  })
+  const categoryRows = Object.values(byCategory)
+    .map(row => ({ ...row, rate: toRate(row.done, row.target) }))
+    .sort((a, b) => b.rate - a.rate || a.name.localeCompare(b.name))
+
+  const projectRows = projects
+    .map(project => ({
+      id: project.id,
+      name: project.name,
+      changes: getProjectChanges(project, interval),
+      status: project.status,
+      progress: project.progress
+    }))
+    .filter(row => row.changes.length > 0)
+
+  const ranked = [...rows].sort((a, b) => b.rate - a.rate || b.done - a.done || a.name.localeCompare(b.name))
+  // With only a few habits, the top half counts as best and the rest as worst.
+  const bestCount = Math.min(HIGHLIGHTS, Math.ceil(ranked.length / 2))
+  const previousRows = habits
+    .map(habit => ({ archived: habit.archived, ...getProgress(habit, previousInterval) }))
+    .filter(row => row.target > 0 && (!row.archived || row.done > 0))
+
+  return {
+    start: interval.start,
+    end: interval.end,
+    habits: rows,
+    categories: categoryRows,
+    projects: projectRows,
+    best: ranked.slice(0, bestCount),
+    worst: ranked.slice(Math.max(bestCount, ranked.length - HIGHLIGHTS)).reverse(),
+    rate: sumRate(rows),
+    previousRate: sumRate(previousRows)
+  }
+}
+
+export const PROJECT_CHANGE_LABELS: { [change in ProjectChange]: string } = {
+  created: 'Created',
+  started: 'Started',
+  completed: 'Completed'
+}
+
+export const formatReportPeriod = (report: Report) =>
+  `${format(report.start, 'MMM d, yyyy')} – ${format(report.end, 'MMM d, yyyy')}`
+
+export const formatStreakChange = (row: HabitReportRow) => {
+  const diff = row.streakAfter - row.streakBefore
+  const change = diff === 0 ? 'no change' : `${diff > 0 ? '+' : ''}${diff}`
+  return `${formatStreak(row.streakAfter, row.streakUnit)} (${change})`
+}
+
+export const formatRateChange = (current: number, previous: number) => {
+  const diff = current - previous
+  return diff === 0 ? 'same as before' : `${diff > 0 ? '+' : ''}${diff} pts`
+}
+
+const escapeCell = (value: string) => value.replace(/\|/g, '\\|')
+
+const table = (header: string[], rows: string[][]) =>
+  [
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(escapeCell).join(' | ')} |`)
+  ].join('\n')
+
+// `category` notes a category filter the report was built with.
+export const reportToMarkdown = (report: Report, category?: string) => {
+  const sections = [
+    `# Review: ${formatReportPeriod(report)}`,
+    ...(category ? [`Habits in ${category}`] : []),
+    `Overall completion rate: **${report.rate}%** (${formatRateChange(report.rate, report.previousRate)})`
+  ]
+
+  if (report.best.length > 0) {
+    sections.push(
+      '## Highlights',
+      [
+        `**Best:** ${report.best.map(row => `${row.name} (${row.rate}%)`).join(', ')}`,
+        ...(report.worst.length > 0 ? [`**Needs attention:** ${report.worst.map(row => `${row.name} (${row.rate}%)`).join(', ')}`] : [])
+      ].join('\n\n')
+    )
+  }
+
+  sections.push(
+    '## Habits',
+    report.habits.length === 0
+      ? '_No habits were scheduled in this period._'
+      : table(
+          ['Habit', 'Done', 'Rate', 'Change', 'Streak'],
+          report.habits.map(row => [
+            row.name,
+            `${row.done} / ${row.target}`,
+            `${row.rate}%`,
+            formatRateChange(row.rate, row.previousRate),
+            formatStreakChange(row)
+          ])
+        )
+  )
+
+  if (report.categories.length > 0) {
+    sections.push(
+      '## Categories',
+      table(['Category', 'Done', 'Rate'], report.categories.map(row => [row.name, `${row.done} / ${row.target}`, `${row.rate}%`]))
+    )
+  }
+
+  sections.push(
+    '## Projects',
+    report.projects.length === 0
+      ? '_No project changes in this period._'
+      : table(
+          ['Project', 'Changes', 'Status', 'Progress'],
+          report.projects.map(row => [
+            row.name,
+            row.changes.map(change => PROJECT_CHANGE_LABELS[change]).join(', '),
+            PROJECT_STATUS_LABELS[row.status],
+            `${row.progress}%`
+          ])
+        )
+  )
+
+  return sections.join('\n\n') + '\n'
+}
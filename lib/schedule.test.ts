@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { makeHabit } from './fixtures'
+import { describeSchedule, getExpected, getProgress, isDueOn } from './schedule'
+
+// Monday 3 June to Sunday 9 June 2024.
+const week = { start: new Date(2024, 5, 3), end: new Date(2024, 5, 9, 23, 59) }
+
+describe('getExpected', () => {
+  it('counts scheduled days for daily and weekday habits', () => {
+    expect(getExpected(makeHabit('1'), week)).toBe(7)
+    expect(getExpected(makeHabit('1', { schedule: { type: 'weekdays', days: [1, 3, 5] } }), week)).toBe(3)
+  })
+
+  it('spreads times-per-period and interval habits across the days', () => {
+    expect(getExpected(makeHabit('1', { schedule: { type: 'times-per-period', times: 3, period: 'week' } }), week)).toBe(3)
+    expect(getExpected(makeHabit('1', { schedule: { type: 'interval', every: 2 } }), week)).toBe(3.5)
+  })
+
+  it('leaves out paused days and days before the habit existed', () => {
+    const habit = makeHabit('1', { createdAt: '2024-06-05', pauses: [{ start: '2024-06-08', end: '2024-06-09' }] })
+    expect(getExpected(habit, week)).toBe(3)
+  })
+
+  it('expects nothing for reversed intervals, empty weekdays or a zero interval', () => {
+    expect(getExpected(makeHabit('1'), { start: week.end, end: week.start })).toBe(0)
+    expect(getExpected(makeHabit('1', { schedule: { type: 'weekdays', days: [] } }), week)).toBe(0)
+    expect(getExpected(makeHabit('1', { schedule: { type: 'interval', every: 0 } }), week)).toBe(7)
+  })
+})
+
+describe('getProgress', () => {
+  it('ignores check-ins on off-schedule weekdays', () => {
+    const habit = makeHabit('1', {
+      schedule: { type: 'weekdays', days: [1, 3, 5] },
+      completions: ['2024-06-03', '2024-06-04', '2024-06-05']
+    })
+    expect(getProgress(habit, week)).toEqual({ done: 2, target: 3 })
+  })
+})
+
+describe('isDueOn', () => {
+  it('follows the weekday schedule and pauses', () => {
+    const habit = makeHabit('1', { schedule: { type: 'weekdays', days: [1] }, pauses: [{ start: '2024-06-10', end: '2024-06-10' }] })
+    expect(isDueOn(habit, new Date(2024, 5, 3))).toBe(true)
+    expect(isDueOn(habit, new Date(2024, 5, 4))).toBe(false)
+    expect(isDueOn(habit, new Date(2024, 5, 10))).toBe(false)
+  })
+
+  it('is due again once an interval has passed', () => {
+    const habit = makeHabit('1', { schedule: { type: 'interval', every: 3 }, completions: ['2024-06-03'] })
+    expect(isDueOn(habit, new Date(2024, 5, 5))).toBe(false)
+    expect(isDueOn(habit, new Date(2024, 5, 6))).toBe(true)
+  })
+
+  it('stops once the period target is met', () => {
+    const habit = makeHabit('1', { schedule: { type: 'times-per-period', times: 2, period: 'week' }, completions: ['2024-06-03', '2024-06-04'] })
+    expect(isDueOn(habit, new Date(2024, 5, 5))).toBe(false)
+  })
+})
+
+describe('describeSchedule', () => {
+  it('describes each schedule type', () => {
+    expect(describeSchedule({ type: 'weekdays', days: [5, 1] })).toBe('Mon, Fri')
+    expect(describeSchedule({ type: 'times-per-period', times: 3, period: 'month' })).toBe('3× per month')
+    expect(describeSchedule({ type: 'interval', every: 2 })).toBe('Every 2 days')
+  })
+})
@@ -0,0 +1,109 @@
+import { differenceInCalendarDays, eachDayOfInterval, endOfMonth, endOfWeek, getDay, getDaysInMonth, parseISO, startOfMonth, startOfWeek } from 'date-fns'
+import type { Interval } from 'date-fns'
+import { Habit, HabitSchedule, SchedulePeriod } from './types'
+import { toDateKey } from './dates'
+import { completionsBetween, getSortedCompletions, hasCompletion } from './completionIndex'
+
+export const DEFAULT_SCHEDULE: HabitSchedule = { type: 'daily' }
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+// Habits saved before schedules existed have no schedule and are treated as daily.
+export const getSchedule = (habit: Habit): HabitSchedule => habit.schedule ?? DEFAULT_SCHEDULE
+
+export const isScheduledOn = (schedule: HabitSchedule, date: Date) =>
+  schedule.type === 'weekdays' ? schedule.days.includes(getDay(date)) : true
+
+// Paused days (vacations, illness) are left out of targets and streaks.
+export const isPausedOn = (habit: Habit, date: Date) => {
+  const key = toDateKey(date)
+  return (habit.pauses ?? []).some(pause => key >= pause.start && key <= pause.end)
+}
+
+export const getActivePause = (habit: Habit, date: Date = new Date()) => {
+  const key = toDateKey(date)
+  return (habit.pauses ?? []).find(pause => key >= pause.start && key <= pause.end)
+}
+
+export const getPeriodInterval = (period: SchedulePeriod, date: Date) =>
+  period === 'week'
+    ? { start: startOfWeek(date), end: endOfWeek(date) }
+    : { start: startOfMonth(date), end: endOfMonth(date) }
+
+const periodLength = (period: SchedulePeriod, date: Date) =>
+  period === 'week' ? 7 : getDaysInMonth(date)
+
+// Days before a habit existed don't count against it. Habits saved before
+// createdAt was recorded fall back to their first check-in.
+export const getActiveSince = (habit: Habit) => habit.createdAt ?? getSortedCompletions(habit)[0]
+
+// Check-ins the schedule expects within the interval, excluding paused days.
+// Weekly and every-N-days habits expect a fraction per day, so short
+// intervals can expect less than one check-in. Empty, reversed or invalid
+// intervals expect nothing.
+export const getExpected = (habit: Habit, interval: Interval) => {
+  if (!(new Date(interval.start) <= new Date(interval.end))) return 0
+  const schedule = getSchedule(habit)
+  const allDays = eachDayOfInterval(interval)
+  const since = getActiveSince(habit)
+  const days = allDays.filter(d => !isPausedOn(habit, d) && (!since || toDateKey(d) >= since))
+  switch (schedule.type) {
+    case 'daily':
+      return days.length
+    case 'weekdays':
+      return days.filter(d => isScheduledOn(schedule, d)).length
+    case 'times-per-period':
+      return schedule.times * days.length / periodLength(schedule.period, allDays[0])
+    case 'interval':
+      return days.length / Math.max(1, schedule.every)
+  }
+}
+
+export const getTarget = (habit: Habit, interval: Interval) => Math.ceil(getExpected(habit, interval))
+
+// Check-ins counted toward the target; weekday habits ignore off-schedule days.
+export const getDone = (habit: Habit, interval: Interval) => {
+  const schedule = getSchedule(habit)
+  const dates = completionsBetween(habit, interval)
+  return schedule.type === 'weekdays'
+    ? dates.filter(date => isScheduledOn(schedule, parseISO(date))).length
+    : dates.length
+}
+
+export const getProgress = (habit: Habit, interval: Interval) => ({
+  done: getDone(habit, interval),
+  target: getTarget(habit, interval)
+})
+
+export const isDueOn = (habit: Habit, date: Date) => {
+  const schedule = getSchedule(habit)
+  if (isPausedOn(habit, date)) return false
+  switch (schedule.type) {
+    case 'daily':
+    case 'weekdays':
+      return isScheduledOn(schedule, date)
+    case 'times-per-period': {
+      const { done, target } = getProgress(habit, getPeriodInterval(schedule.period, date))
+      return done < target || hasCompletion(habit, toDateKey(date))
+    }
+    case 'interval': {
+      const last = getSortedCompletions(habit).filter(d => d <= toDateKey(date)).pop()
+      return !last || differenceInCalendarDays(date, parseISO(last)) >= schedule.every || last === toDateKey(date)
+    }
+  }
+}
+
+export const describeSchedule = (schedule: HabitSchedule) => {
+  switch (schedule.type) {
+    case 'daily':
+      return 'Daily'
+    case 'weekdays':
+      return schedule.days.length === 0
+        ? 'No days'
+        : [...schedule.days].sort().map(d => WEEKDAY_LABELS[d]).join(', ')
+    case 'times-per-period':
+      return `${schedule.times}× per ${schedule.period}`
+    case 'interval':
+      return schedule.every === 1 ? 'Daily' : `Every ${schedule.every} days`
+  }
+}
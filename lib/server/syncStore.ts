@@ -0,0 +1,46 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { SyncRequest, SyncResponse, SyncSpace, applySyncRequest, createSyncSpace, getChangesSince } from '../sync'
+
+// One JSON file per sync space. Point SYNC_DATA_DIR at a persistent volume
+// when self-hosting.
+const DATA_DIR = process.env.SYNC_DATA_DIR ?? path.join(process.cwd(), '.data', 'sync')
+
+let queue: Promise<unknown> = Promise.resolve()
+
+// Requests run one at a time so concurrent pushes never interleave their
+// read-modify-write of the same file.
+const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = queue.then(task, task)
+  queue = run.catch(() => undefined)
+  return run
+}
+
+const fileFor = (key: string) => path.join(DATA_DIR, `${key}.json`)
+
+const readSpace = async (key: string): Promise<SyncSpace> => {
+  try {
+    return JSON.parse(await fs.readFile(fileFor(key), 'utf8'))
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return createSyncSpace()
+    throw e
+  }
+}
+
+// Written to a temp file first so a crash mid-write never leaves a truncated space.
+const writeSpace = async (key: string, space: SyncSpace) => {
+  await fs.mkdir(DATA_DIR, { recursive: true })
+  const temp = `${fileFor(key)}.${process.pid}.tmp`
+  await fs.writeFile(temp, JSON.stringify(space))
+  await fs.rename(temp, fileFor(key))
+}
+
+export const pullChanges = (key: string, cursor: number): Promise<SyncResponse> =>
+  serialize(async () => getChangesSince(await readSpace(key), cursor))
+
+export const pushChanges = (key: string, request: SyncRequest): Promise<SyncResponse> =>
+  serialize(async () => {
+    const space = applySyncRequest(await readSpace(key), request)
+    await writeSpace(key, space)
+    return getChangesSince(space, request.cursor)
+  })
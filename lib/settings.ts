@@ -0,0 +1,10 @@
+import { setDefaultOptions } from 'date-fns'
+import { Settings } from './types'
+
+export const DEFAULT_SETTINGS: Settings = { weekStartsOn: 0 }
+
+// Week boundaries are applied through date-fns' default options so every
+// startOfWeek/endOfWeek call (ranges, schedules, calendars) agrees.
+export const applySettings = (settings: Settings) => {
+  setDefaultOptions({ weekStartsOn: settings.weekStartsOn })
+}
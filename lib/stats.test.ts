@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { makeCategory, makeHabit } from './fixtures'
+import { getPreviousInterval, getRangeInterval } from './ranges'
+import { averageRate, getCategoryStats, getHabitStats, sumCompletions } from './stats'
+
+const custom = { start: '2024-06-01', end: '2024-06-14' }
+const now = new Date(2024, 5, 15, 12)
+
+describe('getPreviousInterval', () => {
+  it('steps back one calendar unit for named ranges', () => {
+    const month = getPreviousInterval('month', getRangeInterval('month', custom, now))
+    expect(month).toEqual({ start: new Date(2024, 4, 1), end: new Date(2024, 4, 31, 23, 59, 59, 999) })
+    const week = getPreviousInterval('week', getRangeInterval('week', custom, now))
+    expect(week.start).toEqual(new Date(2024, 5, 2))
+  })
+
+  it('takes the same number of days before a custom range', () => {
+    const previous = getPreviousInterval('custom', getRangeInterval('custom', custom, now))
+    expect(previous).toEqual({ start: new Date(2024, 4, 18), end: new Date(2024, 4, 31, 23, 59, 59, 999) })
+  })
+})
+
+describe('getHabitStats', () => {
+  const habits = [
+    makeHabit('1', { completions: ['2024-06-03', '2024-06-04', '2024-06-10'] }),
+    makeHabit('2', { schedule: { type: 'weekdays', days: [1] }, completions: ['2024-06-03'] })
+  ]
+  const interval = getRangeInterval('week', custom, new Date(2024, 5, 4))
+  const previous = getPreviousInterval('week', interval)
+
+  // Habit 1 only counts from its first check-in on Monday.
+  it('compares completions and rates with the previous period', () => {
+    const current = getHabitStats(habits, interval)
+    expect(current.map(s => [s.id, s.completions, s.target, s.rate])).toEqual([['1', 2, 6, 33], ['2', 1, 1, 100]])
+    expect(getHabitStats(habits, previous).map(s => s.completions)).toEqual([0, 0])
+    expect(sumCompletions(current)).toBe(3)
+    expect(averageRate(current)).toBe(67)
+  })
+
+  it('averages nothing to zero', () => {
+    expect(averageRate([])).toBe(0)
+  })
+})
+
+describe('getCategoryStats', () => {
+  it('counts spellings of one category as one slice in its registry color', () => {
+    const habits = [
+      makeHabit('1', { category: 'Health', completions: ['2024-06-03'] }),
+      makeHabit('2', { category: ' health', completions: ['2024-06-04'] })
+    ]
+    const interval = getRangeInterval('week', custom, new Date(2024, 5, 4))
+    expect(getCategoryStats(habits, interval, [makeCategory('c', 'Health')])).toEqual([{ name: 'Health', value: 2, color: '#10b981' }])
+  })
+})
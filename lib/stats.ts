@@ -0,0 +1,72 @@
+import { Category, Habit, Project } from './types'
+import { ResolvedInterval } from './ranges'
+import { getProgress } from './schedule'
+import { getValueInRange } from './habits'
+import { isAtRisk, isOverdue } from './projects'
+import { getCategoryColor, resolveCategoryName } from './categories'
+
+export interface HabitStat {
+  id: string
+  name: string
+  completions: number
+  target: number
+  value: number
+  rate: number
+  color: string
+}
+
+export interface CategoryStat {
+  name: string
+  value: number
+  color: string
+}
+
+export interface ProjectStats {
+  total: number
+  notStarted: number
+  inProgress: number
+  completed: number
+  overdue: number
+  atRisk: number
+  avgProgress: number
+}
+
+export const getHabitStats = (habits: Habit[], interval: ResolvedInterval): HabitStat[] =>
+  habits.map(habit => {
+    const { done, target } = getProgress(habit, interval)
+    return {
+      id: habit.id,
+      name: habit.name,
+      completions: done,
+      target,
+      value: getValueInRange(habit, interval),
+      rate: target > 0 ? Math.round((Math.min(done, target) / target) * 100) : 0,
+      color: habit.color
+    }
+  })
+
+// Spellings that differ only in case or spacing count as one slice.
+export const getCategoryStats = (habits: Habit[], interval: ResolvedInterval, categories: Category[]): CategoryStat[] => {
+  const totals: { [name: string]: number } = {}
+  habits.forEach(habit => {
+    const name = resolveCategoryName(habit.category, [...categories.map(c => c.name), ...Object.keys(totals)])
+    totals[name] = (totals[name] || 0) + getProgress(habit, interval).done
+  })
+  return Object.entries(totals).map(([name, value]) => ({ name, value, color: getCategoryColor(categories, name) }))
+}
+
+export const getProjectStats = (projects: Project[], habits: Habit[] = []): ProjectStats => ({
+  total: projects.length,
+  notStarted: projects.filter(p => p.status === 'not-started').length,
+  inProgress: projects.filter(p => p.status === 'in-progress').length,
+  completed: projects.filter(p => p.status === 'completed').length,
+  overdue: projects.filter(p => isOverdue(p)).length,
+  atRisk: projects.filter(p => isAtRisk(p, habits)).length,
+  avgProgress: projects.length > 0 ? Math.round(projects.reduce((sum, p) => sum + p.progress, 0) / projects.length) : 0
+})
+
+export const averageRate = (stats: { rate: number }[]) =>
+  stats.length > 0 ? Math.round(stats.reduce((sum, h) => sum + h.rate, 0) / stats.length) : 0
+
+export const sumCompletions = (stats: { completions: number }[]) =>
+  stats.reduce((sum, h) => sum + h.completions, 0)
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { makeHabit, makeProject } from './fixtures'
+
+// An in-memory localStorage; without IndexedDB the storage module uses it directly.
+const createMemoryStorage = () => {
+  const items = new Map<string, string>()
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key)
+  }
+}
+
+// The module caches its backend and write snapshots, so each test gets a fresh copy.
+const loadStorage = async () => {
+  vi.resetModules()
+  return import('./storage')
+}
+
+describe('loadState', () => {
+  let storage: ReturnType<typeof createMemoryStorage>
+
+  beforeEach(() => {
+    storage = createMemoryStorage()
+    vi.stubGlobal('localStorage', storage)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('migrates unversioned data and records the schema version', async () => {
+    storage.setItem('habits', JSON.stringify([{ id: '1', name: 'Run', category: 'Health', color: '#fff', completions: [] }]))
+    storage.setItem('projects', JSON.stringify([{ ...makeProject('p'), tasks: undefined }]))
+    const { SCHEMA_VERSION, loadState } = await loadStorage()
+    const result = await loadState()
+    expect(result.habits[0].kind).toBe('check')
+    expect(result.projects[0].tasks).toEqual([])
+    expect(result.quarantined).toEqual([])
+    expect(storage.getItem('schemaVersion')).toBe(String(SCHEMA_VERSION))
+    expect(JSON.parse(storage.getItem('habits') ?? '[]')[0].kind).toBe('check')
+  })
+
+  it('sets invalid records aside and keeps the rest', async () => {
+    storage.setItem('schemaVersion', '1')
+    storage.setItem('habits', JSON.stringify([makeHabit('1'), { ...makeHabit('2'), schedule: { type: 'weekdays', days: [] } }]))
+    const { loadState } = await loadStorage()
+    const result = await loadState()
+    expect(result.habits.map(h => h.id)).toEqual(['1'])
+    expect(result.quarantined).toMatchObject([{ key: 'habits', error: 'Habit "Habit 2" has an invalid schedule' }])
+    expect(JSON.parse(storage.getItem('quarantine') ?? '[]')).toHaveLength(1)
+  })
+
+  it('quarantines a store that is not valid JSON', async () => {
+    storage.setItem('schemaVersion', '1')
+    storage.setItem('projects', '{oops')
+    const { loadState } = await loadStorage()
+    const result = await loadState()
+    expect(result.projects).toEqual([])
+    expect(result.quarantined).toMatchObject([{ key: 'projects', raw: '{oops' }])
+  })
+
+  it('clears the quarantine once discarded', async () => {
+    storage.setItem('quarantine', JSON.stringify([{ key: 'habits', raw: '', error: 'x', at: '2024-06-01T00:00:00.000Z' }]))
+    const { saveQuarantine } = await loadStorage()
+    await saveQuarantine([])
+    expect(storage.getItem('quarantine')).toBeNull()
+  })
+})
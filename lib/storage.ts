@@ -0,0 +1,245 @@
+import { Category, Goal, Habit, Project, Settings } from './types'
+import { isObject, validateCategory, validateGoal, validateHabit, validateProject } from './validation'
+import { DEFAULT_SETTINGS } from './settings'
+import { INITIAL_SYNC_STATE, SyncState } from './sync'
+import { CorruptStoreError, StorageBackend, StoreName, StoredRecord, createIndexedDbBackend, createLocalStorageBackend } from './backends'
+
+export const SCHEMA_VERSION = 1
+
+const META_KEYS = {
+  version: 'schemaVersion',
+  quarantine: 'quarantine',
+  settings: 'settings',
+  sync: 'sync'
+}
+
+export interface StoredData {
+  habits: unknown[]
+  projects: unknown[]
+  categories: unknown[]
+  goals: unknown[]
+}
+
+export interface QuarantinedRecord {
+  key: string
+  raw: string
+  error: string
+  at: string
+}
+
+export interface LoadResult {
+  habits: Habit[]
+  projects: Project[]
+  categories: Category[]
+  goals: Goal[]
+  quarantined: QuarantinedRecord[]
+}
+
+type Migration = (data: StoredData) => StoredData
+
+// MIGRATIONS[n] upgrades data from schema version n to n + 1.
+const MIGRATIONS: Migration[] = [
+  // 0 → 1: unversioned data; habits become check habits and projects always carry tasks.
+  data => ({
+    ...data,
+    habits: data.habits.map(h => isObject(h) ? { kind: 'check', ...h } : h),
+    projects: data.projects.map(p => isObject(p) ? { tasks: [], ...p } : p)
+  })
+]
+
+export const migrate = (data: StoredData, fromVersion: number): StoredData =>
+  MIGRATIONS.slice(fromVersion).reduce((current, migration) => migration(current), data)
+
+const errorMessage = (e: unknown) => e instanceof Error ? e.message : String(e)
+
+const quarantine = (key: string, raw: string, error: string): QuarantinedRecord => ({
+  key,
+  raw,
+  error,
+  at: new Date().toISOString()
+})
+
+let backendPromise: Promise<StorageBackend> | null = null
+
+// IndexedDB is preferred; localStorage remains the fallback where it's unavailable.
+export const getBackend = () => {
+  if (!backendPromise) {
+    backendPromise = (async () => {
+      if (typeof indexedDB === 'undefined') return createLocalStorageBackend()
+      try {
+        return await createIndexedDbBackend()
+      } catch (e) {
+        console.warn('IndexedDB unavailable, falling back to localStorage', e)
+        return createLocalStorageBackend()
+      }
+    })()
+  }
+  return backendPromise
+}
+
+// Switches the rest of the session to localStorage, for when IndexedDB opened
+// but then failed to read, e.g. a blocked upgrade or private browsing.
+export const fallBackToLocalStorage = () => {
+  backendPromise = Promise.resolve(createLocalStorageBackend())
+}
+
+// Last written record per id, used to write only what changed.
+const snapshots: { [store in StoreName]: Map<string, StoredRecord> } = {
+  habits: new Map(),
+  projects: new Map(),
+  categories: new Map(),
+  goals: new Map()
+}
+
+const readStore = async (backend: StorageBackend, store: StoreName, quarantined: QuarantinedRecord[]) => {
+  try {
+    return await backend.read(store)
+  } catch (e) {
+    quarantined.push(quarantine(store, e instanceof CorruptStoreError ? e.raw : '', errorMessage(e)))
+    return []
+  }
+}
+
+const validateAll = <T>(key: string, records: unknown[], validate: (value: unknown, index: number) => T, quarantined: QuarantinedRecord[]) =>
+  records.flatMap((record, index) => {
+    try {
+      return [validate(record, index)]
+    } catch (e) {
+      quarantined.push(quarantine(key, JSON.stringify(record), errorMessage(e)))
+      return []
+    }
+  })
+
+const readVersion = async (backend: StorageBackend, hasData: boolean) => {
+  const stored = await backend.getMeta(META_KEYS.version)
+  if (stored === null) {
+    // Data written before versioning existed is schema 0.
+    return hasData ? 0 : SCHEMA_VERSION
+  }
+  const version = parseInt(stored)
+  return isNaN(version) ? 0 : version
+}
+
+export const loadState = async (): Promise<LoadResult> => {
+  const backend = await getBackend()
+  const legacy = createLocalStorageBackend()
+  // The first IndexedDB session picks up whatever was saved in localStorage before.
+  const isFirstRun = backend.name === 'indexeddb' && await backend.getMeta(META_KEYS.version) === null
+  const source = isFirstRun ? legacy : backend
+
+  const quarantined: QuarantinedRecord[] = []
+  const raw = {
+    habits: await readStore(source, 'habits', quarantined),
+    projects: await readStore(source, 'projects', quarantined),
+    categories: await readStore(source, 'categories', quarantined),
+    goals: await readStore(source, 'goals', quarantined)
+  }
+  const version = await readVersion(source, raw.habits.length > 0 || raw.projects.length > 0 || quarantined.length > 0)
+  const data = migrate(raw, version)
+
+  const habits = validateAll('habits', data.habits, validateHabit, quarantined)
+  const projects = validateAll('projects', data.projects, validateProject, quarantined)
+  const categories = validateAll('categories', data.categories, validateCategory, quarantined)
+  const goals = validateAll('goals', data.goals, validateGoal, quarantined)
+  const previous = [
+    ...await loadQuarantine(backend),
+    ...(isFirstRun ? await loadQuarantine(legacy) : [])
+  ]
+
+  if (source !== backend || version < SCHEMA_VERSION) {
+    await writeStore('habits', habits)
+    await writeStore('projects', projects)
+    await writeStore('categories', categories)
+    await writeStore('goals', goals)
+  } else {
+    snapshots.habits = new Map(habits.map(h => [h.id, h]))
+    snapshots.projects = new Map(projects.map(p => [p.id, p]))
+    snapshots.categories = new Map(categories.map(c => [c.id, c]))
+    snapshots.goals = new Map(goals.map(g => [g.id, g]))
+  }
+  await backend.setMeta(META_KEYS.version, String(SCHEMA_VERSION))
+  if (quarantined.length > 0) {
+    await saveQuarantine([...previous, ...quarantined])
+  }
+  if (isFirstRun) {
+    await legacy.setMeta('habits', null)
+    await legacy.setMeta('projects', null)
+    await legacy.setMeta('categories', null)
+    await legacy.setMeta('goals', null)
+    await legacy.setMeta(META_KEYS.version, null)
+    await legacy.setMeta(META_KEYS.quarantine, null)
+  }
+
+  return {
+    habits,
+    projects,
+    categories,
+    goals,
+    quarantined: [...previous, ...quarantined]
+  }
+}
+
+const writeStore = async (store: StoreName, records: StoredRecord[]) => {
+  const backend = await getBackend()
+  const previous = snapshots[store]
+  const ids = new Set(records.map(r => r.id))
+  const change = {
+    all: records,
+    changed: records.filter(r => previous.get(r.id) !== r),
+    removedIds: Array.from(previous.keys()).filter(id => !ids.has(id))
+  }
+  snapshots[store] = new Map(records.map(r => [r.id, r]))
+  await backend.write(store, change)
+}
+
+export const saveHabits = (habits: Habit[]) => writeStore('habits', habits)
+
+export const saveProjects = (projects: Project[]) => writeStore('projects', projects)
+
+export const saveCategories = (categories: Category[]) => writeStore('categories', categories)
+
+export const saveGoals = (goals: Goal[]) => writeStore('goals', goals)
+
+const loadQuarantine = async (backend: StorageBackend): Promise<QuarantinedRecord[]> => {
+  try {
+    const parsed = JSON.parse(await backend.getMeta(META_KEYS.quarantine) || '[]')
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+export const saveQuarantine = async (records: QuarantinedRecord[]) => {
+  const backend = await getBackend()
+  await backend.setMeta(META_KEYS.quarantine, records.length === 0 ? null : JSON.stringify(records))
+}
+
+export const loadSettings = async (): Promise<Settings> => {
+  const backend = await getBackend()
+  try {
+    const parsed = JSON.parse(await backend.getMeta(META_KEYS.settings) || '{}')
+    return { ...DEFAULT_SETTINGS, ...(isObject(parsed) ? parsed : {}) }
+  } catch {
+    return DEFAULT_SETTINGS
+  }
+}
+
+export const saveSettings = async (settings: Settings) => {
+  const backend = await getBackend()
+  await backend.setMeta(META_KEYS.settings, JSON.stringify(settings))
+}
+
+export const loadSyncState = async (): Promise<SyncState> => {
+  const backend = await getBackend()
+  try {
+    const parsed = JSON.parse(await backend.getMeta(META_KEYS.sync) || '{}')
+    return { ...INITIAL_SYNC_STATE, ...(isObject(parsed) ? parsed : {}) }
+  } catch {
+    return INITIAL_SYNC_STATE
+  }
+}
+
+export const saveSyncState = async (state: SyncState) => {
+  const backend = await getBackend()
+  await backend.setMeta(META_KEYS.sync, JSON.stringify(state))
+}
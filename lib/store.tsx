@@ -0,0 +1,285 @@
+'use client'
+
+import { createContext, useCallback, useContext, useEffect, useReducer, useRef } from 'react'
+import { Category, Goal, Habit, Project, Settings } from './types'
+import { isFutureDate, todayKey } from './dates'
+import { setDayValue, toggleCompletion } from './habits'
+import { DEFAULT_SETTINGS, applySettings } from './settings'
+import { QuarantinedRecord, fallBackToLocalStorage, loadSettings, loadState, loadSyncState, saveCategories, saveGoals, saveHabits, saveProjects, saveQuarantine, saveSettings, saveSyncState } from './storage'
+import { Snapshot, applyHistoryChanges, useHistory } from './history'
+import { INITIAL_SYNC_STATE, SyncResponse, SyncState, applySyncResponse, buildSyncRequest, markAllPending, stampChanges } from './sync'
+import { createSyncKey, pushAndPull } from './syncClient'
+import { awardBadges } from './goals'
+
+interface StoreState {
+  habits: Habit[]
+  projects: Project[]
+  categories: Category[]
+  goals: Goal[]
+  settings: Settings
+  quarantined: QuarantinedRecord[]
+  hydrated: boolean
+  // Set when nothing could be read; the session is then read-only so stored data is never overwritten.
+  loadError: string | null
+  toast: string | null
+  sync: SyncState
+  syncStatus: SyncStatus
+}
+
+export interface SyncStatus {
+  state: 'idle' | 'syncing' | 'error'
+  error?: string
+}
+
+type StoreAction =
+  | { type: 'loaded'; habits: Habit[]; projects: Project[]; categories: Category[]; goals: Goal[]; settings: Settings; quarantined: QuarantinedRecord[]; sync: SyncState }
+  | { type: 'loadFailed'; error: string }
+  | { type: 'replace'; snapshot: Snapshot; pending: SyncState['pending'] }
+  | { type: 'synced'; response: SyncResponse; sent: SyncState['pending']; at: string }
+  | { type: 'sync'; sync: SyncState }
+  | { type: 'syncStatus'; status: SyncStatus }
+  | { type: 'settings'; settings: Settings }
+  | { type: 'quarantine'; records: QuarantinedRecord[] }
+  | { type: 'toast'; message: string | null }
+
+const initialState: StoreState = {
+  habits: [],
+  projects: [],
+  categories: [],
+  goals: [],
+  settings: DEFAULT_SETTINGS,
+  quarantined: [],
+  hydrated: false,
+  loadError: null,
+  toast: null,
+  sync: INITIAL_SYNC_STATE,
+  syncStatus: { state: 'idle' }
+}
+
+const reducer = (state: StoreState, action: StoreAction): StoreState => {
+  switch (action.type) {
+    case 'loaded':
+      return { ...state, habits: action.habits, projects: action.projects, categories: action.categories, goals: action.goals, settings: action.settings, quarantined: action.quarantined, sync: action.sync, hydrated: true }
+    case 'loadFailed':
+      return { ...state, loadError: action.error, hydrated: true }
+    case 'replace':
+      return { ...state, ...action.snapshot, sync: { ...state.sync, pending: action.pending } }
+    case 'synced': {
+      // Applied against the latest state so edits made while the request was in flight survive.
+      const result = applySyncResponse(state, state.sync, action.sent, action.response, action.at)
+      return { ...state, ...result.snapshot, sync: result.state }
+    }
+    case 'sync':
+      return { ...state, sync: action.sync }
+    case 'syncStatus':
+      return { ...state, syncStatus: action.status }
+    case 'settings':
+      return { ...state, settings: action.settings }
+    case 'quarantine':
+      return { ...state, quarantined: action.records }
+    case 'toast':
+      return { ...state, toast: action.message }
+  }
+}
+
+const SYNC_INTERVAL_MS = 60 * 1000
+const SYNC_DEBOUNCE_MS = 2000
+
+interface CommitOptions {
+  coalesceKey?: string
+  undoToast?: boolean
+}
+
+const useStoreValue = () => {
+  const [state, dispatch] = useReducer(reducer, initialState)
+  const history = useHistory()
+  const { habits, projects, categories, goals, hydrated, loadError, settings, sync } = state
+  const canSave = hydrated && !loadError
+  const latest = useRef(state)
+  latest.current = state
+  const syncing = useRef(false)
+
+  useEffect(() => {
+    const load = () => Promise.all([loadState(), loadSettings(), loadSyncState()])
+    load()
+      .catch(e => {
+        console.warn('Failed to load stored data, falling back to localStorage', e)
+        fallBackToLocalStorage()
+        return load()
+      })
+      .then(([loaded, settings, sync]) => {
+        applySettings(settings)
+        dispatch({ type: 'loaded', ...loaded, settings, sync })
+      })
+      .catch(e => {
+        console.error('Failed to load stored data', e)
+        dispatch({ type: 'loadFailed', error: e instanceof Error ? e.message : String(e) })
+      })
+  }, [])
+
+  // Saving waits for a successful load so an empty state never overwrites stored data.
+  useEffect(() => {
+    if (canSave) saveHabits(habits).catch(e => console.error('Failed to save habits', e))
+  }, [habits, canSave])
+
+  useEffect(() => {
+    if (canSave) saveProjects(projects).catch(e => console.error('Failed to save projects', e))
+  }, [projects, canSave])
+
+  useEffect(() => {
+    if (canSave) saveCategories(categories).catch(e => console.error('Failed to save categories', e))
+  }, [categories, canSave])
+
+  useEffect(() => {
+    if (canSave) saveGoals(goals).catch(e => console.error('Failed to save goals', e))
+  }, [goals, canSave])
+
+  useEffect(() => {
+    if (canSave) saveSyncState(sync).catch(e => console.error('Failed to save sync state', e))
+  }, [sync, canSave])
+
+  const syncNow = useCallback(async () => {
+    const current = latest.current
+    const key = current.settings.syncKey
+    if (!key || syncing.current) return
+    syncing.current = true
+    dispatch({ type: 'syncStatus', status: { state: 'syncing' } })
+    try {
+      const sent = current.sync.pending
+      const response = await pushAndPull(key, buildSyncRequest(current, current.sync))
+      dispatch({ type: 'synced', response, sent, at: new Date().toISOString() })
+      dispatch({ type: 'syncStatus', status: { state: 'idle' } })
+    } catch (e) {
+      dispatch({ type: 'syncStatus', status: { state: 'error', error: e instanceof Error ? e.message : String(e) } })
+    } finally {
+      syncing.current = false
+    }
+  }, [])
+
+  // Sync on load, periodically, and whenever the tab regains focus or the network returns.
+  useEffect(() => {
+    if (!canSave || !settings.syncKey) return
+    syncNow()
+    const timer = setInterval(syncNow, SYNC_INTERVAL_MS)
+    window.addEventListener('focus', syncNow)
+    window.addEventListener('online', syncNow)
+    return () => {
+      clearInterval(timer)
+      window.removeEventListener('focus', syncNow)
+      window.removeEventListener('online', syncNow)
+    }
+  }, [canSave, settings.syncKey, syncNow])
+
+  // Local edits are pushed shortly after they settle.
+  useEffect(() => {
+    if (!canSave || !settings.syncKey || Object.keys(sync.pending).length === 0) return
+    const timer = setTimeout(syncNow, SYNC_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [canSave, settings.syncKey, sync.pending, syncNow])
+
+  const updateSettings = (settings: Settings) => {
+    applySettings(settings)
+    dispatch({ type: 'settings', settings })
+    if (canSave) saveSettings(settings).catch(e => console.error('Failed to save settings', e))
+  }
+
+  // Joining an existing space uploads everything this device already has.
+  const enableSync = (key: string = createSyncKey()) => {
+    updateSettings({ ...settings, syncKey: key })
+    dispatch({ type: 'sync', sync: { ...INITIAL_SYNC_STATE, pending: markAllPending({ habits, projects, categories, goals }) } })
+  }
+
+  const disableSync = () => {
+    updateSettings({ ...settings, syncKey: undefined })
+    dispatch({ type: 'sync', sync: INITIAL_SYNC_STATE })
+  }
+
+  // Quarantined records cannot be restored once discarded, and undo does not cover them.
+  const discardQuarantined = () => {
+    if (!window.confirm('Discard the records that could not be loaded? Download them first if you may need them.')) return
+    saveQuarantine([]).catch(e => console.error('Failed to clear quarantined records', e))
+    dispatch({ type: 'quarantine', records: [] })
+  }
+
+  // Changed records get a fresh updatedAt and, while sync is on, are queued for the next push.
+  const replace = (next: Snapshot) => {
+    const stamped = stampChanges({ habits, projects, categories, goals }, next, sync.pending)
+    dispatch({ type: 'replace', snapshot: stamped.snapshot, pending: settings.syncKey ? stamped.pending : sync.pending })
+    return stamped.snapshot
+  }
+
+  // Every data change goes through commit so it can be undone. Badges earned
+  // by the change are part of the same entry, so undoing it takes them back.
+  const commit = (label: string, change: Partial<Snapshot>, options: CommitOptions = {}) => {
+    const next = {
+      habits: change.habits ?? habits,
+      projects: change.projects ?? projects,
+      categories: change.categories ?? categories,
+      goals: change.goals ?? goals
+    }
+    const awarded = awardBadges(next)
+    const after = replace({ ...next, goals: awarded })
+    history.record({ label, before: { habits, projects, categories, goals }, after, coalesceKey: options.coalesceKey })
+    const unlocked = awarded.filter(goal => goal.achievedAt && !next.goals.find(g => g.id === goal.id)?.achievedAt)
+    if (unlocked.length > 0) {
+      dispatch({ type: 'toast', message: `🏅 Badge unlocked: ${unlocked.map(g => g.name).join(', ')}` })
+    } else if (options.undoToast) {
+      dispatch({ type: 'toast', message: label })
+    }
+  }
+
+  const undo = () => {
+    const entry = history.undo()
+    if (entry) replace(applyHistoryChanges({ habits, projects, categories, goals }, entry.after, entry.before))
+  }
+
+  const redo = () => {
+    const entry = history.redo()
+    if (entry) replace(applyHistoryChanges({ habits, projects, categories, goals }, entry.before, entry.after))
+  }
+
+  const toggleHabitCompletion = (habitId: string, date: string = todayKey()) => {
+    if (isFutureDate(date)) return
+    commit('Check-in', { habits: habits.map(habit => habit.id === habitId ? toggleCompletion(habit, date) : habit) })
+  }
+
+  const logHabitValue = (habitId: string, value: number, date: string = todayKey()) => {
+    if (isFutureDate(date)) return
+    commit('Log value', {
+      habits: habits.map(habit => habit.id === habitId ? setDayValue(habit, date, Math.max(0, value)) : habit)
+    }, { coalesceKey: `value-${habitId}-${date}` })
+  }
+
+  const closeToast = useCallback(() => dispatch({ type: 'toast', message: null }), [])
+
+  return {
+    ...state,
+    history,
+    commit,
+    undo,
+    redo,
+    updateSettings,
+    enableSync,
+    disableSync,
+    syncNow,
+    discardQuarantined,
+    toggleHabitCompletion,
+    logHabitValue,
+    closeToast
+  }
+}
+
+export type Store = ReturnType<typeof useStoreValue>
+
+const StoreContext = createContext<Store | null>(null)
+
+export function StoreProvider({ children }: { children: React.ReactNode }) {
+  const store = useStoreValue()
+  return <StoreContext.Provider value={store}>{children}</StoreContext.Provider>
+}
+
+export const useStore = () => {
+  const store = useContext(StoreContext)
+  if (!store) throw new Error('useStore must be used inside <StoreProvider>')
+  return store
+}
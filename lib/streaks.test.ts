@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { makeHabit } from './fixtures'
+import { getStreakHistory, getStreakInfo } from './streaks'
+
+// Saturday 15 June 2024, midday.
+const now = new Date(2024, 5, 15, 12)
+
+describe('getStreakInfo', () => {
+  it('keeps a daily streak alive but at risk until today is checked in', () => {
+    const habit = makeHabit('1', { completions: ['2024-06-12', '2024-06-13', '2024-06-14'] })
+    expect(getStreakInfo(habit, now)).toEqual({ current: 3, longest: 3, unit: 'day', currentStart: '2024-06-12', atRisk: true })
+  })
+
+  it('breaks on a missed day and remembers the longest run', () => {
+    const habit = makeHabit('1', { completions: ['2024-06-01', '2024-06-02', '2024-06-03', '2024-06-14', '2024-06-15'] })
+    const streak = getStreakInfo(habit, now)
+    expect(streak.current).toBe(2)
+    expect(streak.longest).toBe(3)
+    expect(streak.atRisk).toBe(false)
+  })
+
+  it('skips unscheduled and paused days', () => {
+    const habit = makeHabit('1', {
+      schedule: { type: 'weekdays', days: [1, 3, 5] },
+      completions: ['2024-06-03', '2024-06-05', '2024-06-14'],
+      pauses: [{ start: '2024-06-06', end: '2024-06-13' }]
+    })
+    expect(getStreakInfo(habit, now).current).toBe(3)
+  })
+
+  it('counts periods for times-per-period habits', () => {
+    const habit = makeHabit('1', {
+      schedule: { type: 'times-per-period', times: 2, period: 'week' },
+      completions: ['2024-06-03', '2024-06-04', '2024-06-10', '2024-06-12']
+    })
+    expect(getStreakInfo(habit, now)).toMatchObject({ current: 2, unit: 'week' })
+  })
+
+  it('counts check-ins no more than N days apart for interval habits', () => {
+    const habit = makeHabit('1', { schedule: { type: 'interval', every: 3 }, completions: ['2024-06-05', '2024-06-08', '2024-06-11', '2024-06-13'] })
+    expect(getStreakInfo(habit, now)).toMatchObject({ current: 4, unit: 'check-in', atRisk: false })
+  })
+})
+
+describe('getStreakHistory', () => {
+  it('lists every run oldest first', () => {
+    const habit = makeHabit('1', { completions: ['2024-06-01', '2024-06-02', '2024-06-05'] })
+    expect(getStreakHistory(habit, now)).toEqual([
+      { start: '2024-06-01', end: '2024-06-02', length: 2 },
+      { start: '2024-06-05', end: '2024-06-05', length: 1 }
+    ])
+  })
+})
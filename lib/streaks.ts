@@ -0,0 +1,187 @@
+import { addDays, addMonths, addWeeks, differenceInCalendarDays, parseISO, startOfDay } from 'date-fns'
+import { Habit, HabitSchedule } from './types'
+import { toDateKey } from './dates'
+import { getPeriodInterval, getProgress, getSchedule, isPausedOn, isScheduledOn } from './schedule'
+
+export type StreakUnit = 'day' | 'week' | 'month' | 'check-in'
+
+export interface StreakInfo {
+  current: number
+  longest: number
+  unit: StreakUnit
+  currentStart?: string
+  // True while the streak is still alive but today's check-in is missing.
+  atRisk: boolean
+}
+
+export interface StreakRun {
+  start: string
+  end: string
+  length: number
+}
+
+// One scheduled occurrence (a day or a period) and whether its target was met.
+interface Slot {
+  start: Date
+  satisfied: boolean
+  open: boolean
+}
+
+export const getStreakInfo = (habit: Habit, now: Date = new Date()): StreakInfo => {
+  const schedule = getSchedule(habit)
+  if (schedule.type === 'interval') {
+    return getIntervalStreak(habit, schedule.every, now)
+  }
+
+  const slots = getSlots(habit, schedule, now)
+  const last = slots[slots.length - 1]
+  // An open slot that isn't met yet doesn't break the streak until it closes.
+  const closed = last && last.open && !last.satisfied ? slots.slice(0, -1) : slots
+
+  let current = 0
+  while (current < closed.length && closed[closed.length - 1 - current].satisfied) {
+    current++
+  }
+
+  return {
+    current,
+    longest: getLongestRun(slots),
+    unit: schedule.type === 'times-per-period' ? schedule.period : 'day',
+    currentStart: current > 0 ? toDateKey(closed[closed.length - current].start) : undefined,
+    atRisk: current > 0 && closed !== slots && isOpenSlotAtRisk(habit, schedule, now)
+  }
+}
+
+const getSlots = (habit: Habit, schedule: HabitSchedule, now: Date) =>
+  schedule.type === 'times-per-period'
+    ? getPeriodSlots(habit, schedule, now)
+    : getDaySlots(habit, schedule, now)
+
+const getDaySlots = (habit: Habit, schedule: HabitSchedule, now: Date): Slot[] => {
+  const first = getFirstCompletion(habit.completions)
+  if (!first) return []
+  const completed = new Set(habit.completions)
+  const today = startOfDay(now)
+  const slots: Slot[] = []
+  for (let day = first; day <= today; day = addDays(day, 1)) {
+    if (isScheduledOn(schedule, day) && !isPausedOn(habit, day)) {
+      slots.push({ start: day, satisfied: completed.has(toDateKey(day)), open: day.getTime() === today.getTime() })
+    }
+  }
+  return slots
+}
+
+const getPeriodSlots = (habit: Habit, schedule: Extract<HabitSchedule, { type: 'times-per-period' }>, now: Date): Slot[] => {
+  const first = getFirstCompletion(habit.completions)
+  if (!first) return []
+  const step = schedule.period === 'week' ? addWeeks : addMonths
+  const current = getPeriodInterval(schedule.period, now).start
+  const slots: Slot[] = []
+  for (let start = getPeriodInterval(schedule.period, first).start; start <= current; start = step(start, 1)) {
+    const { done, target } = getProgress(habit, getPeriodInterval(schedule.period, start))
+    // Periods paused from start to end neither extend nor break the streak.
+    if (target > 0) {
+      slots.push({ start, satisfied: done >= target, open: start.getTime() === current.getTime() })
+    }
+  }
+  return slots
+}
+
+const isOpenSlotAtRisk = (habit: Habit, schedule: HabitSchedule, now: Date) => {
+  if (schedule.type !== 'times-per-period') return true
+  if (habit.completions.includes(toDateKey(now))) return false
+  const period = getPeriodInterval(schedule.period, now)
+  const { done, target } = getProgress(habit, period)
+  const daysLeft = differenceInCalendarDays(period.end, now) + 1
+  return target - done >= daysLeft
+}
+
+// Days between two dates that weren't paused, counting `to` but not `from`.
+const activeDaysBetween = (habit: Habit, from: Date, to: Date) => {
+  let days = 0
+  for (let day = addDays(startOfDay(from), 1); day <= to; day = addDays(day, 1)) {
+    if (!isPausedOn(habit, day)) days++
+  }
+  return days
+}
+
+const getPastCompletions = (habit: Habit, now: Date) =>
+  Array.from(new Set(habit.completions)).sort().map(d => parseISO(d)).filter(d => d <= now)
+
+// Every-N-days habits count check-ins that are at most N active days apart.
+const continuesRun = (habit: Habit, dates: Date[], i: number, every: number) =>
+  i > 0 && activeDaysBetween(habit, dates[i - 1], dates[i]) <= every
+
+const getIntervalStreak = (habit: Habit, every: number, now: Date): StreakInfo => {
+  const dates = getPastCompletions(habit, now)
+  let longest = 0
+  let run = 0
+  dates.forEach((date, i) => {
+    run = continuesRun(habit, dates, i, every) ? run + 1 : 1
+    longest = Math.max(longest, run)
+  })
+
+  const last = dates[dates.length - 1]
+  const sinceLast = last ? activeDaysBetween(habit, last, now) : Infinity
+  const current = sinceLast <= every ? run : 0
+
+  return {
+    current,
+    longest,
+    unit: 'check-in',
+    currentStart: current > 0 ? toDateKey(dates[dates.length - current]) : undefined,
+    atRisk: current > 0 && sinceLast >= every
+  }
+}
+
+const getFirstCompletion = (completions: string[]) => {
+  const first = [...completions].sort()[0]
+  return first ? parseISO(first) : undefined
+}
+
+const getLongestRun = (slots: Slot[]) => {
+  let longest = 0
+  let run = 0
+  slots.forEach(slot => {
+    run = slot.satisfied ? run + 1 : 0
+    longest = Math.max(longest, run)
+  })
+  return longest
+}
+
+// Every streak the habit has had, oldest first.
+export const getStreakHistory = (habit: Habit, now: Date = new Date()): StreakRun[] => {
+  const schedule = getSchedule(habit)
+  const runs: StreakRun[] = []
+  const extend = (date: Date, continues: boolean) => {
+    const key = toDateKey(date)
+    const last = runs[runs.length - 1]
+    if (continues && last) {
+      last.end = key
+      last.length++
+    } else {
+      runs.push({ start: key, end: key, length: 1 })
+    }
+  }
+
+  if (schedule.type === 'interval') {
+    const dates = getPastCompletions(habit, now)
+    dates.forEach((date, i) => extend(date, continuesRun(habit, dates, i, schedule.every)))
+    return runs
+  }
+
+  let previousSatisfied = false
+  getSlots(habit, schedule, now).forEach(slot => {
+    if (slot.satisfied) extend(slot.start, previousSatisfied)
+    previousSatisfied = slot.satisfied
+  })
+  return runs
+}
+
+export const formatStreak = (count: number, unit: StreakUnit) =>
+  `${count} ${unit}${count === 1 ? '' : 's'}`
+
+export const getStreakLeaderboard = (habits: Habit[], now: Date = new Date()) =>
+  habits
+    .map(habit => ({ habit, ...getStreakInfo(habit, now) }))
+    .sort((a, b) => b.current - a.current || b.longest - a.longest)
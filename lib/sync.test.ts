@@ -0,0 +1,151 @@
+import { describe, expect, it, vi } from 'vitest'
+import { makeHabit, makeProject, makeSnapshot, makeSyncRequest, makeSyncResponse, makeTask } from './fixtures'
+import { applySyncRequest, applySyncResponse, createSyncSpace, getChangesSince, parseSyncRequest, parseSyncResponse } from './sync'
+
+describe('applySyncRequest', () => {
+  it('merges a record changed on two devices since their cursor', () => {
+    const first = applySyncRequest(createSyncSpace(), makeSyncRequest({
+      habits: [makeHabit('1', { name: 'Run', completions: ['2024-06-01'], updatedAt: '2024-06-01T10:00:00Z' })]
+    }))
+    const second = applySyncRequest(first, makeSyncRequest({
+      habits: [makeHabit('1', { name: 'Jog', completions: ['2024-06-02'], updatedAt: '2024-06-01T09:00:00Z' })]
+    }))
+    const merged = second.habits['1'].record
+    expect(merged.name).toBe('Run')
+    expect(merged.completions).toEqual(['2024-06-01', '2024-06-02'])
+  })
+
+  it('replaces a record the device had already seen', () => {
+    const first = applySyncRequest(createSyncSpace(), makeSyncRequest({ habits: [makeHabit('1', { completions: ['2024-06-01'] })] }))
+    const second = applySyncRequest(first, makeSyncRequest({ cursor: first.seq, habits: [makeHabit('1', { completions: [] })] }))
+    expect(second.habits['1'].record.completions).toEqual([])
+  })
+
+  it('merges tasks from both sides of a project', () => {
+    const first = applySyncRequest(createSyncSpace(), makeSyncRequest({
+      projects: [makeProject('p', { tasks: [makeTask('a')] })]
+    }))
+    const second = applySyncRequest(first, makeSyncRequest({
+      projects: [makeProject('p', { tasks: [makeTask('b', { completed: true })] })]
+    }))
+    expect(second.projects.p.record.tasks.map(t => t.id)).toEqual(['a', 'b'])
+  })
+
+  it('records deletions and ignores ones that raced an edit elsewhere', () => {
+    const created = applySyncRequest(createSyncSpace(), makeSyncRequest({ habits: [makeHabit('1'), makeHabit('2')] }))
+    const edited = applySyncRequest(created, makeSyncRequest({ cursor: created.seq, habits: [makeHabit('2', { name: 'Edited' })] }))
+    const next = applySyncRequest(edited, makeSyncRequest({
+      cursor: created.seq,
+      deleted: [{ store: 'habits', id: '1' }, { store: 'habits', id: '2' }]
+    }))
+    expect(Object.keys(next.habits)).toEqual(['2'])
+    expect(getChangesSince(next, edited.seq).deleted).toEqual([{ store: 'habits', id: '1' }])
+  })
+
+  it('only returns changes after the cursor', () => {
+    const first = applySyncRequest(createSyncSpace(), makeSyncRequest({ habits: [makeHabit('1')] }))
+    const second = applySyncRequest(first, makeSyncRequest({ cursor: first.seq, habits: [makeHabit('2')] }))
+    const changes = getChangesSince(second, first.seq)
+    expect(changes.cursor).toBe(second.seq)
+    expect(changes.habits.map(h => h.id)).toEqual(['2'])
+  })
+})
+
+describe('applySyncResponse', () => {
+  const now = '2024-06-02T12:00:00.000Z'
+
+  it('takes server copies of records without local edits and adds new ones', () => {
+    const { snapshot: next, state } = applySyncResponse(
+      makeSnapshot({ habits: [makeHabit('1', { name: 'Old' })] }),
+      { cursor: 0, pending: {} },
+      {},
+      makeSyncResponse({ cursor: 5, habits: [makeHabit('1', { name: 'New' }), makeHabit('2')] }),
+      now
+    )
+    expect(next.habits.map(h => h.name)).toEqual(['New', 'Habit 2'])
+    expect(state).toEqual({ cursor: 5, lastSyncedAt: now, pending: {} })
+  })
+
+  it('removes records deleted on the server unless edited locally', () => {
+    const { snapshot: next } = applySyncResponse(
+      makeSnapshot({ habits: [makeHabit('1'), makeHabit('2')] }),
+      { cursor: 0, pending: { 'habits:2': '2024-06-02T11:00:00Z' } },
+      {},
+      makeSyncResponse({ deleted: [{ store: 'habits', id: '1' }, { store: 'habits', id: '2' }] }),
+      now
+    )
+    expect(next.habits.map(h => h.id)).toEqual(['2'])
+  })
+
+  it('keeps edits made while the request was in flight pending and merged', () => {
+    const local = makeHabit('1', { completions: ['2024-06-02'], updatedAt: '2024-06-02T11:30:00Z' })
+    const { snapshot: next, state } = applySyncResponse(
+      makeSnapshot({ habits: [local] }),
+      { cursor: 0, pending: { 'habits:1': '2024-06-02T11:30:00Z' } },
+      { 'habits:1': '2024-06-02T11:00:00Z' },
+      makeSyncResponse({ cursor: 3, habits: [makeHabit('1', { completions: ['2024-06-01'], updatedAt: '2024-06-02T11:00:00Z' })] }),
+      now
+    )
+    expect(next.habits[0].completions).toEqual(['2024-06-01', '2024-06-02'])
+    expect(state.pending).toEqual({ 'habits:1': '2024-06-02T11:30:00Z' })
+  })
+
+  it('clears pending edits the server acknowledged', () => {
+    const { state } = applySyncResponse(
+      makeSnapshot({ habits: [makeHabit('1')] }),
+      { cursor: 0, pending: { 'habits:1': '2024-06-02T11:00:00Z' } },
+      { 'habits:1': '2024-06-02T11:00:00Z' },
+      makeSyncResponse({ cursor: 1, habits: [makeHabit('1')] }),
+      now
+    )
+    expect(state.pending).toEqual({})
+  })
+
+  it('does not bring back records deleted locally while the request was in flight', () => {
+    const { snapshot: next } = applySyncResponse(
+      makeSnapshot({ habits: [] }),
+      { cursor: 0, pending: { 'habits:1': '2024-06-02T11:30:00Z' } },
+      {},
+      makeSyncResponse({ habits: [makeHabit('1')] }),
+      now
+    )
+    expect(next.habits).toEqual([])
+  })
+})
+
+describe('parseSyncRequest', () => {
+  const parse = (changes: object) => parseSyncRequest(JSON.parse(JSON.stringify(makeSyncRequest(changes))))
+
+  it('accepts well-formed records', () => {
+    const request = parse({
+      habits: [makeHabit('1', { schedule: { type: 'weekdays', days: [1, 3] }, pauses: [{ start: '2024-06-01', end: '2024-06-07' }] })],
+      projects: [makeProject('p', { tasks: [makeTask('t', { dueDate: '2024-06-10' })] })]
+    })
+    expect(request.habits).toHaveLength(1)
+    expect(request.projects[0].tasks).toHaveLength(1)
+  })
+
+  it('rejects malformed schedules, pauses and tasks', () => {
+    expect(() => parse({ habits: [{ ...makeHabit('1'), schedule: { type: 'weekdays' } }] })).toThrow('invalid schedule')
+    expect(() => parse({ habits: [{ ...makeHabit('1'), schedule: { type: 'interval' } }] })).toThrow('invalid schedule')
+    expect(() => parse({ habits: [makeHabit('1', { pauses: [{ start: '2024-06-07', end: '2024-06-01' }] })] })).toThrow('paused periods')
+    expect(() => parse({ projects: [{ ...makeProject('p'), tasks: [{ id: 't', name: 'T' }] }] })).toThrow('invalid tasks')
+  })
+
+  it('rejects unknown deletion stores', () => {
+    expect(() => parse({ deleted: [{ store: 'settings', id: '1' }] })).toThrow('Malformed deletion')
+  })
+})
+
+describe('parseSyncResponse', () => {
+  it('skips malformed records instead of failing the pull', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    const body = JSON.parse(JSON.stringify(makeSyncResponse({
+      cursor: 2,
+      habits: [makeHabit('1'), { ...makeHabit('2'), completions: 'nope' } as never]
+    })))
+    const response = parseSyncResponse(body)
+    expect(response.cursor).toBe(2)
+    expect(response.habits.map(h => h.id)).toEqual(['1'])
+  })
+})
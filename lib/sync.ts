@@ -0,0 +1,269 @@
+import { Category, Goal, Habit, Project } from './types'
+import { Snapshot } from './history'
+import { mergeGoal, mergeHabit, mergeProject } from './merge'
+import { isObject, validateCategory, validateGoal, validateHabit, validateProject } from './validation'
+
+export type SyncStoreName = 'habits' | 'projects' | 'categories' | 'goals'
+
+const SYNC_STORES: SyncStoreName[] = ['habits', 'projects', 'categories', 'goals']
+
+export interface SyncDeletion {
+  store: SyncStoreName
+  id: string
+}
+
+// Sent by a device: everything it changed since `cursor`, the server sequence
+// number it last saw.
+export interface SyncRequest {
+  cursor: number
+  habits: Habit[]
+  projects: Project[]
+  categories: Category[]
+  goals: Goal[]
+  deleted: SyncDeletion[]
+}
+
+// Everything that changed on the server after the request's cursor.
+export interface SyncResponse {
+  cursor: number
+  habits: Habit[]
+  projects: Project[]
+  categories: Category[]
+  goals: Goal[]
+  deleted: SyncDeletion[]
+}
+
+// Client-side bookkeeping, persisted next to the data.
+export interface SyncState {
+  cursor: number
+  lastSyncedAt?: string
+  // Local edits the server hasn't acknowledged, keyed by `store:id`, valued by
+  // when they happened. A key whose record no longer exists is a deletion.
+  pending: { [key: string]: string }
+}
+
+export const INITIAL_SYNC_STATE: SyncState = { cursor: 0, pending: {} }
+
+export const SYNC_KEY_PATTERN = /^[A-Za-z0-9-]{16,64}$/
+
+const pendingKey = (store: SyncStoreName, id: string) => `${store}:${id}`
+
+// Newer edits win on plain fields; check-ins and tasks are merged either way.
+const resolveHabit = (a: Habit, b: Habit) =>
+  (a.updatedAt ?? '') > (b.updatedAt ?? '') ? mergeHabit(b, a) : mergeHabit(a, b)
+
+const resolveProject = (a: Project, b: Project) =>
+  (a.updatedAt ?? '') > (b.updatedAt ?? '') ? mergeProject(b, a) : mergeProject(a, b)
+
+const resolveCategory = (a: Category, b: Category) =>
+  (a.updatedAt ?? '') > (b.updatedAt ?? '') ? a : b
+
+const resolveGoal = (a: Goal, b: Goal) =>
+  (a.updatedAt ?? '') > (b.updatedAt ?? '') ? mergeGoal(b, a) : mergeGoal(a, b)
+
+// Stamps records that changed between two snapshots and marks them pending.
+export const stampChanges = (before: Snapshot, after: Snapshot, pending: SyncState['pending'], now: string = new Date().toISOString()) => {
+  const nextPending = { ...pending }
+  const stamp = <T extends { id: string; updatedAt?: string }>(store: SyncStoreName, previous: T[], next: T[]) => {
+    const previousById = new Map(previous.map(r => [r.id, r]))
+    const ids = new Set(next.map(r => r.id))
+    previous.forEach(r => {
+      if (!ids.has(r.id)) nextPending[pendingKey(store, r.id)] = now
+    })
+    return next.map(r => {
+      if (previousById.get(r.id) === r) return r
+      nextPending[pendingKey(store, r.id)] = now
+      return { ...r, updatedAt: now }
+    })
+  }
+  return {
+    snapshot: {
+      habits: stamp('habits', before.habits, after.habits),
+      projects: stamp('projects', before.projects, after.projects),
+      categories: stamp('categories', before.categories, after.categories),
+      goals: stamp('goals', before.goals, after.goals)
+    },
+    pending: nextPending
+  }
+}
+
+// Marks every record pending, used when a device first joins a sync space.
+export const markAllPending = (snapshot: Snapshot, now: string = new Date().toISOString()): SyncState['pending'] =>
+  Object.fromEntries(SYNC_STORES.flatMap(store => snapshot[store].map(r => [pendingKey(store, r.id), now])))
+
+export const buildSyncRequest = (snapshot: Snapshot, state: SyncState): SyncRequest => {
+  const request: SyncRequest = { cursor: state.cursor, habits: [], projects: [], categories: [], goals: [], deleted: [] }
+  const habitsById = new Map(snapshot.habits.map(h => [h.id, h]))
+  const projectsById = new Map(snapshot.projects.map(p => [p.id, p]))
+  const categoriesById = new Map(snapshot.categories.map(c => [c.id, c]))
+  const goalsById = new Map(snapshot.goals.map(g => [g.id, g]))
+  Object.keys(state.pending).forEach(key => {
+    const [store, ...rest] = key.split(':')
+    const id = rest.join(':')
+    if (store === 'habits') {
+      const habit = habitsById.get(id)
+      habit ? request.habits.push(habit) : request.deleted.push({ store, id })
+    } else if (store === 'projects') {
+      const project = projectsById.get(id)
+      project ? request.projects.push(project) : request.deleted.push({ store, id })
+    } else if (store === 'categories') {
+      const category = categoriesById.get(id)
+      category ? request.categories.push(category) : request.deleted.push({ store, id })
+    } else if (store === 'goals') {
+      const goal = goalsById.get(id)
+      goal ? request.goals.push(goal) : request.deleted.push({ store, id })
+    }
+  })
+  return request
+}
+
+// Applies a server response to the local data. `sent` is the pending map at
+// the time the request went out: anything edited since then stays pending and
+// is merged with the server copy instead of being overwritten.
+export const applySyncResponse = (snapshot: Snapshot, state: SyncState, sent: SyncState['pending'], response: SyncResponse, now: string = new Date().toISOString()) => {
+  const pending = Object.fromEntries(Object.entries(state.pending).filter(([key, at]) => sent[key] !== at))
+  const deleted = new Set(response.deleted.map(d => pendingKey(d.store, d.id)))
+
+  const apply = <T extends { id: string }>(store: SyncStoreName, local: T[], remote: T[], resolve: (a: T, b: T) => T) => {
+    const remoteById = new Map(remote.map(r => [r.id, r]))
+    const localIds = new Set(local.map(r => r.id))
+    const merged = local.flatMap(record => {
+      const key = pendingKey(store, record.id)
+      const incoming = remoteById.get(record.id)
+      if (pending[key]) return [incoming ? resolve(record, incoming) : record]
+      if (deleted.has(key)) return []
+      return [incoming ?? record]
+    })
+    // Records deleted locally while the request was in flight stay deleted.
+    const added = remote.filter(r => !localIds.has(r.id) && !pending[pendingKey(store, r.id)])
+    return [...merged, ...added]
+  }
+
+  return {
+    snapshot: {
+      habits: apply('habits', snapshot.habits, response.habits, resolveHabit),
+      projects: apply('projects', snapshot.projects, response.projects, resolveProject),
+      categories: apply('categories', snapshot.categories, response.categories, resolveCategory),
+      goals: apply('goals', snapshot.goals, response.goals, resolveGoal)
+    },
+    state: { cursor: response.cursor, lastSyncedAt: now, pending }
+  }
+}
+
+// Server side: one sync space per key, with a sequence number per change.
+interface SpaceEntry<T> {
+  record: T
+  seq: number
+}
+
+export interface SyncSpace {
+  seq: number
+  habits: { [id: string]: SpaceEntry<Habit> }
+  projects: { [id: string]: SpaceEntry<Project> }
+  // Missing from spaces created before categories and goals were synced.
+  categories?: { [id: string]: SpaceEntry<Category> }
+  goals?: { [id: string]: SpaceEntry<Goal> }
+  deleted: { [key: string]: SpaceEntry<SyncDeletion> }
+}
+
+export const createSyncSpace = (): SyncSpace => ({ seq: 0, habits: {}, projects: {}, categories: {}, goals: {}, deleted: {} })
+
+export const getChangesSince = (space: SyncSpace, cursor: number): SyncResponse => ({
+  cursor: space.seq,
+  habits: Object.values(space.habits).filter(e => e.seq > cursor).map(e => e.record),
+  projects: Object.values(space.projects).filter(e => e.seq > cursor).map(e => e.record),
+  categories: Object.values(space.categories ?? {}).filter(e => e.seq > cursor).map(e => e.record),
+  goals: Object.values(space.goals ?? {}).filter(e => e.seq > cursor).map(e => e.record),
+  deleted: Object.values(space.deleted).filter(e => e.seq > cursor).map(e => e.record)
+})
+
+// A record the server hasn't touched since the device's cursor is simply
+// replaced; one that changed on both sides is merged. Deleting a record that
+// was edited elsewhere in the meantime is ignored.
+export const applySyncRequest = (space: SyncSpace, request: SyncRequest): SyncSpace => {
+  const next = {
+    seq: space.seq,
+    habits: { ...space.habits },
+    projects: { ...space.projects },
+    categories: { ...space.categories },
+    goals: { ...space.goals },
+    deleted: { ...space.deleted }
+  }
+  const put = <T extends { id: string }>(store: SyncStoreName, entries: { [id: string]: SpaceEntry<T> }, record: T, resolve: (a: T, b: T) => T) => {
+    const existing = entries[record.id]
+    next.seq++
+    entries[record.id] = {
+      record: existing && existing.seq > request.cursor ? resolve(existing.record, record) : record,
+      seq: next.seq
+    }
+    delete next.deleted[pendingKey(store, record.id)]
+  }
+  request.habits.forEach(habit => put('habits', next.habits, habit, resolveHabit))
+  request.projects.forEach(project => put('projects', next.projects, project, resolveProject))
+  request.categories.forEach(category => put('categories', next.categories, category, resolveCategory))
+  request.goals.forEach(goal => put('goals', next.goals, goal, resolveGoal))
+  request.deleted.forEach(deletion => {
+    const entries: { [id: string]: SpaceEntry<unknown> } = next[deletion.store]
+    const existing = entries[deletion.id]
+    if (!existing || existing.seq > request.cursor) return
+    delete entries[deletion.id]
+    next.seq++
+    next.deleted[pendingKey(deletion.store, deletion.id)] = { record: deletion, seq: next.seq }
+  })
+  return next
+}
+
+// Keeps the records that pass validation, so one malformed record stored by a
+// buggy client can't crash this device after a pull.
+const keepValid = <T>(store: SyncStoreName, records: unknown, validate: (value: unknown, index: number) => T) =>
+  (Array.isArray(records) ? records : []).flatMap((record, index) => {
+    try {
+      return [validate(record, index)]
+    } catch (e) {
+      console.warn(`Skipped a malformed record in ${store} from the sync server`, e)
+      return []
+    }
+  })
+
+export const parseSyncResponse = (body: unknown): SyncResponse => {
+  if (!isObject(body) || typeof body.cursor !== 'number' || !Array.isArray(body.deleted)) {
+    throw new Error('Malformed sync response')
+  }
+  return {
+    cursor: body.cursor,
+    habits: keepValid('habits', body.habits, validateHabit),
+    projects: keepValid('projects', body.projects, validateProject),
+    categories: keepValid('categories', body.categories, validateCategory),
+    goals: keepValid('goals', body.goals, validateGoal),
+    deleted: body.deleted.filter((d): d is SyncDeletion =>
+      isObject(d) && SYNC_STORES.some(s => d.store === s) && typeof d.id === 'string')
+  }
+}
+
+// Validates an untrusted request body, throwing with a readable message.
+// Records go through the same validators as local storage, so a malformed
+// schedule, pause or task is rejected before it reaches other devices.
+export const parseSyncRequest = (body: unknown): SyncRequest => {
+  if (!isObject(body) || typeof body.cursor !== 'number' || !Array.isArray(body.habits) || !Array.isArray(body.projects) || !Array.isArray(body.deleted)) {
+    throw new Error('Malformed sync request')
+  }
+  if ((body.categories !== undefined && !Array.isArray(body.categories)) || (body.goals !== undefined && !Array.isArray(body.goals))) {
+    throw new Error('Malformed sync request')
+  }
+  const deleted = body.deleted.map((d): SyncDeletion => {
+    const store = SYNC_STORES.find(s => isObject(d) && d.store === s)
+    if (!isObject(d) || !store || typeof d.id !== 'string') {
+      throw new Error('Malformed deletion in sync request')
+    }
+    return { store, id: d.id }
+  })
+  return {
+    cursor: body.cursor,
+    habits: body.habits.map(validateHabit),
+    projects: body.projects.map(validateProject),
+    // Older clients don't send categories or goals.
+    categories: (body.categories ?? []).map(validateCategory),
+    goals: (body.goals ?? []).map(validateGoal),
+    deleted
+  }
+}
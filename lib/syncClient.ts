@@ -0,0 +1,17 @@
+import { SyncRequest, SyncResponse, parseSyncResponse } from './sync'
+
+export const createSyncKey = () => crypto.randomUUID()
+
+// The sync server is this app's own /api/sync route, so there is no separate URL to configure.
+export const pushAndPull = async (key: string, request: SyncRequest): Promise<SyncResponse> => {
+  const response = await fetch('/api/sync', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'x-sync-key': key },
+    body: JSON.stringify(request)
+  })
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.error ?? `Sync failed with status ${response.status}`)
+  }
+  return parseSyncResponse(await response.json())
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { makeProject, makeTask } from './fixtures'
+import { formatDuration, formatTimer, getTaskMinutes, getTimeByProject, getTimesheet, startTimer, stopTimers } from './timeTracking'
+
+const at = (day: number, hours: number, minutes = 0) => new Date(2024, 5, day, hours, minutes)
+
+describe('timers', () => {
+  it('starting a timer stops the one already running', () => {
+    const projects = startTimer([makeProject('a'), makeProject('b')], 'a', undefined, at(3, 9))
+    const switched = startTimer(projects, 'b', undefined, at(3, 10))
+    expect(switched[0].timeEntries).toEqual([{ id: String(at(3, 9).getTime()), start: at(3, 9).toISOString(), end: at(3, 10).toISOString() }])
+    expect(switched[1].timeEntries?.[0].end).toBeUndefined()
+  })
+
+  it('leaves projects without a running timer untouched', () => {
+    const projects = [makeProject('a')]
+    expect(stopTimers(projects, at(3, 9))[0]).toBe(projects[0])
+  })
+})
+
+describe('getTaskMinutes', () => {
+  it('counts running timers up to now and puts orphaned entries on the whole project', () => {
+    const project = makeProject('p', {
+      tasks: [makeTask('t', { name: 'Write' })],
+      timeEntries: [
+        { id: '1', start: at(3, 9).toISOString(), end: at(3, 10).toISOString(), taskId: 't' },
+        { id: '2', start: at(3, 11).toISOString(), taskId: 'gone' }
+      ]
+    })
+    expect(getTaskMinutes(project, at(3, 11, 30))).toEqual([
+      { taskId: 't', name: 'Write', minutes: 60 },
+      { name: 'Whole project', minutes: 30 }
+    ])
+  })
+})
+
+describe('getTimesheet', () => {
+  it('splits entries across midnight into the days they cover', () => {
+    const project = makeProject('p', {
+      timeEntries: [{ id: '1', start: at(4, 23).toISOString(), end: at(5, 1).toISOString() }]
+    })
+    const sheet = getTimesheet([project, makeProject('idle')], at(5, 12), at(5, 12))
+    expect(sheet.days[0]).toBe('2024-06-02')
+    expect(sheet.rows).toEqual([{ projectId: 'p', name: 'Project p', days: [0, 0, 60, 60, 0, 0, 0], total: 120 }])
+    expect(sheet.total).toBe(120)
+  })
+})
+
+describe('getTimeByProject', () => {
+  it('keys rows by project id so same-named projects stay apart', () => {
+    const entry = { id: '1', start: at(3, 9).toISOString(), end: at(3, 10, 30).toISOString() }
+    const rows = getTimeByProject([makeProject('a', { name: 'Site', timeEntries: [entry] }), makeProject('b', { name: 'Site', timeEntries: [entry] })])
+    expect(rows).toEqual([{ id: 'a', name: 'Site', hours: 1.5 }, { id: 'b', name: 'Site', hours: 1.5 }])
+  })
+})
+
+describe('formatting', () => {
+  it('formats durations and timers', () => {
+    expect(formatDuration(45)).toBe('45m')
+    expect(formatDuration(120)).toBe('2h')
+    expect(formatDuration(135)).toBe('2h 15m')
+    expect(formatTimer(61.5)).toBe('1:01:30')
+  })
+})
@@ -0,0 +1,119 @@
+import { addDays, areIntervalsOverlapping, max, min, parseISO, startOfWeek } from 'date-fns'
+import { Project, TimeEntry } from './types'
+import { toDateKey } from './dates'
+
+const MINUTE = 60 * 1000
+
+// A running timer is an entry without an end, so it survives reloads and syncs like any other edit.
+export const isRunning = (entry: TimeEntry) => !entry.end
+
+export const getRunningEntry = (project: Project) => project.timeEntries?.find(isRunning)
+
+const entryInterval = (entry: TimeEntry, now: Date) => {
+  const start = parseISO(entry.start)
+  return { start, end: entry.end ? parseISO(entry.end) : max([start, now]) }
+}
+
+// Minutes of the entry that fall inside `within`, or all of them without it.
+export const getEntryMinutes = (entry: TimeEntry, now: Date = new Date(), within?: { start: Date; end: Date }) => {
+  const interval = entryInterval(entry, now)
+  if (!within) return (interval.end.getTime() - interval.start.getTime()) / MINUTE
+  if (!areIntervalsOverlapping(interval, within)) return 0
+  return (min([interval.end, within.end]).getTime() - max([interval.start, within.start]).getTime()) / MINUTE
+}
+
+const sumMinutes = (entries: TimeEntry[], now: Date, within?: { start: Date; end: Date }) =>
+  entries.reduce((sum, entry) => sum + getEntryMinutes(entry, now, within), 0)
+
+export const getProjectMinutes = (project: Project, now: Date = new Date()) =>
+  sumMinutes(project.timeEntries ?? [], now)
+
+// Time per task, plus the time logged against the project as a whole (taskId undefined).
+export const getTaskMinutes = (project: Project, now: Date = new Date()) => {
+  const entries = project.timeEntries ?? []
+  const rows: { taskId?: string; name: string; minutes: number }[] = project.tasks.map(task => ({
+    taskId: task.id,
+    name: task.name,
+    minutes: sumMinutes(entries.filter(e => e.taskId === task.id), now)
+  }))
+  // Entries for tasks deleted since still count towards the project.
+  const unassigned = sumMinutes(entries.filter(e => !e.taskId || !project.tasks.some(t => t.id === e.taskId)), now)
+  if (unassigned > 0) rows.push({ name: 'Whole project', minutes: unassigned })
+  return rows.filter(row => row.minutes > 0)
+}
+
+export const startTimer = (projects: Project[], projectId: string, taskId?: string, now: Date = new Date()): Project[] => {
+  // Only one timer runs at a time: starting one stops the others.
+  const stopped = stopTimers(projects, now)
+  const entry: TimeEntry = { id: now.getTime().toString(), start: now.toISOString(), taskId }
+  return stopped.map(p => p.id === projectId ? { ...p, timeEntries: [...(p.timeEntries ?? []), entry] } : p)
+}
+
+export const stopTimers = (projects: Project[], now: Date = new Date()): Project[] =>
+  projects.map(project => {
+    if (!project.timeEntries?.some(isRunning)) return project
+    return {
+      ...project,
+      timeEntries: project.timeEntries.map(entry => isRunning(entry) ? { ...entry, end: max([parseISO(entry.start), now]).toISOString() } : entry)
+    }
+  })
+
+// Manual entries are logged as a block of `minutes` starting at 9:00 on the given day.
+export const createManualEntry = (date: string, minutes: number, taskId?: string, note?: string): TimeEntry => {
+  const start = parseISO(`${date}T09:00`)
+  return {
+    id: Date.now().toString(),
+    start: start.toISOString(),
+    end: new Date(start.getTime() + minutes * MINUTE).toISOString(),
+    taskId,
+    note: note || undefined
+  }
+}
+
+export interface TimesheetRow {
+  projectId: string
+  name: string
+  // Minutes per day of the week, in week order.
+  days: number[]
+  total: number
+}
+
+export interface Timesheet {
+  days: string[]
+  rows: TimesheetRow[]
+  totals: number[]
+  total: number
+}
+
+// Entries that span midnight are split across the days they cover.
+export const getTimesheet = (projects: Project[], weekOf: Date, now: Date = new Date()): Timesheet => {
+  const weekStart = startOfWeek(weekOf)
+  const dayStarts = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i))
+  const rows = projects
+    .map(project => {
+      const days = dayStarts.map(start => sumMinutes(project.timeEntries ?? [], now, { start, end: addDays(start, 1) }))
+      return { projectId: project.id, name: project.name, days, total: days.reduce((a, b) => a + b, 0) }
+    })
+    .filter(row => row.total > 0)
+  const totals = dayStarts.map((_, i) => rows.reduce((sum, row) => sum + row.days[i], 0))
+  return { days: dayStarts.map(toDateKey), rows, totals, total: totals.reduce((a, b) => a + b, 0) }
+}
+
+export const getTimeByProject = (projects: Project[], now: Date = new Date()) =>
+  projects
+    .map(project => ({ id: project.id, name: project.name, hours: Math.round(getProjectMinutes(project, now) / 6) / 10 }))
+    .filter(row => row.hours > 0)
+
+export const formatDuration = (minutes: number) => {
+  const rounded = Math.round(minutes)
+  const hours = Math.floor(rounded / 60)
+  const rest = rounded % 60
+  if (hours === 0) return `${rest}m`
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`
+}
+
+export const formatTimer = (minutes: number) => {
+  const seconds = Math.floor(minutes * 60)
+  const pad = (n: number) => n.toString().padStart(2, '0')
+  return `${Math.floor(seconds / 3600)}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`
+}
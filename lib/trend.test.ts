@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { makeHabit } from './fixtures'
+import { chooseBucket, getCompletionTrend } from './trend'
+
+describe('chooseBucket', () => {
+  const interval = (days: number) => ({ start: new Date(2024, 0, 1), end: new Date(2024, 0, days) })
+
+  it('uses days up to a month, months for a year and scales custom ranges', () => {
+    expect(chooseBucket('month', interval(31))).toBe('day')
+    expect(chooseBucket('year', interval(366))).toBe('month')
+    expect(chooseBucket('custom', interval(45))).toBe('day')
+    expect(chooseBucket('custom', interval(100))).toBe('week')
+    expect(chooseBucket('custom', interval(200))).toBe('month')
+  })
+})
+
+describe('getCompletionTrend', () => {
+  const habits = [
+    makeHabit('1', { createdAt: '2024-06-01', completions: ['2024-06-03', '2024-06-04'] }),
+    makeHabit('2', { createdAt: '2024-06-01', schedule: { type: 'weekdays', days: [1] }, completions: ['2024-06-03'] })
+  ]
+  const interval = { start: new Date(2024, 5, 3), end: new Date(2024, 5, 9, 23, 59, 59, 999) }
+
+  it('reports the completion rate per day against the schedule', () => {
+    const trend = getCompletionTrend(habits, interval, 'day', new Date(2024, 5, 5, 12))
+    expect(trend.slice(0, 3)).toEqual([
+      { date: 'Jun 03', rate: 100, completions: 2, expected: 2, value: 2 },
+      { date: 'Jun 04', rate: 100, completions: 1, expected: 1, value: 1 },
+      { date: 'Jun 05', rate: 0, completions: 0, expected: 1, value: 0 }
+    ])
+  })
+
+  it('leaves buckets that have not started yet empty', () => {
+    const trend = getCompletionTrend(habits, interval, 'day', new Date(2024, 5, 5, 12))
+    expect(trend[3]).toEqual({ date: 'Jun 06', rate: null, completions: 0, expected: 0, value: 0 })
+  })
+
+  it('only counts elapsed days in the current bucket', () => {
+    const [week] = getCompletionTrend(habits, interval, 'week', new Date(2024, 5, 5, 12))
+    expect(week).toMatchObject({ completions: 3, expected: 4, rate: 75 })
+  })
+})
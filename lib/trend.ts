@@ -0,0 +1,77 @@
+import { differenceInCalendarDays, eachDayOfInterval, eachMonthOfInterval, eachWeekOfInterval, endOfDay, endOfMonth, endOfWeek, format, max, min } from 'date-fns'
+import { Habit } from './types'
+import { ResolvedInterval, TimeRange } from './ranges'
+import { getDone, getExpected } from './schedule'
+import { getValueInRange } from './habits'
+
+export type Bucket = 'day' | 'week' | 'month'
+
+export interface TrendPoint {
+  date: string
+  // Completion rate in percent; null for buckets that haven't started yet.
+  rate: number | null
+  completions: number
+  expected: number
+  value: number
+}
+
+export const chooseBucket = (range: TimeRange, interval: ResolvedInterval): Bucket => {
+  switch (range) {
+    case 'day':
+    case 'week':
+    case 'month':
+      return 'day'
+    case 'year':
+      return 'month'
+    case 'custom': {
+      const days = differenceInCalendarDays(interval.end, interval.start) + 1
+      return days <= 45 ? 'day' : days <= 26 * 7 ? 'week' : 'month'
+    }
+  }
+}
+
+const bucketStarts = (bucket: Bucket, interval: ResolvedInterval) =>
+  bucket === 'day'
+    ? eachDayOfInterval(interval)
+    : bucket === 'week' ? eachWeekOfInterval(interval) : eachMonthOfInterval(interval)
+
+const bucketEnd = (bucket: Bucket, start: Date) =>
+  bucket === 'day' ? endOfDay(start) : bucket === 'week' ? endOfWeek(start) : endOfMonth(start)
+
+const LABEL_FORMATS: { [bucket in Bucket]: string } = {
+  day: 'MMM dd',
+  week: "'Wk of' MMM d",
+  month: 'MMM yyyy'
+}
+
+// Buckets the interval and reports done / scheduled for each bucket, counting
+// only the days that have already happened.
+export const getCompletionTrend = (habits: Habit[], interval: ResolvedInterval, bucket: Bucket, now: Date = new Date()): TrendPoint[] => {
+  const today = endOfDay(now)
+  return bucketStarts(bucket, interval).map(start => {
+    const from = max([start, interval.start])
+    const to = min([bucketEnd(bucket, start), interval.end, today])
+    const date = format(start, LABEL_FORMATS[bucket])
+    if (from > to) {
+      return { date, rate: null, completions: 0, expected: 0, value: 0 }
+    }
+
+    const elapsed = { start: from, end: to }
+    let completions = 0
+    let expected = 0
+    let value = 0
+    habits.forEach(habit => {
+      completions += getDone(habit, elapsed)
+      expected += getExpected(habit, elapsed)
+      value += getValueInRange(habit, elapsed)
+    })
+
+    return {
+      date,
+      rate: expected > 0 ? Math.min(100, Math.round((completions / expected) * 100)) : null,
+      completions,
+      expected: Math.round(expected * 10) / 10,
+      value
+    }
+  })
+}
@@ -0,0 +1,127 @@
+export interface Habit {
+  id: string
+  name: string
+  category: string
+  color: string
+  completions: string[]
+  schedule?: HabitSchedule
+  kind: HabitKind
+  unit?: string
+  dailyTarget?: number
+  values?: { [date: string]: number }
+  archived?: boolean
+  pauses?: DateRange[]
+  createdAt?: string
+  notes?: { [date: string]: string }
+  // Local times of day ('HH:mm') to be reminded if the habit is still open.
+  reminders?: string[]
+  // The project this habit pushes forward, if any.
+  projectId?: string
+  // Set on every local edit; decides which side's fields win a sync conflict.
+  updatedAt?: string
+}
+
+// Inclusive range of calendar days, both ends formatted 'yyyy-MM-dd'.
+export interface DateRange {
+  start: string
+  end: string
+}
+
+// 'check' habits are done or not; 'measure' habits log a value per day
+// and count as completed once the value reaches dailyTarget.
+export type HabitKind = 'check' | 'measure'
+
+export type SchedulePeriod = 'week' | 'month'
+
+export type HabitSchedule =
+  | { type: 'daily' }
+  | { type: 'weekdays'; days: number[] }
+  | { type: 'times-per-period'; times: number; period: SchedulePeriod }
+  | { type: 'interval'; every: number }
+
+export interface Settings {
+  // 0 = Sunday (US), 1 = Monday (ISO 8601)
+  weekStartsOn: 0 | 1
+  // Shared secret naming this user's space on the sync server; sync is off without it.
+  syncKey?: string
+  // Time of day ('HH:mm') for the pending-habits digest; off when unset.
+  digestTime?: string
+}
+
+// Registry entry for a habit category. Habits refer to categories by name;
+// names used by habits but missing here still show up with a derived color.
+export interface Category {
+  id: string
+  name: string
+  color: string
+  // Completions per week to aim for across all habits in the category.
+  weeklyGoal?: number
+  updatedAt?: string
+}
+
+// A count to reach between two days, e.g. "Exercise 20 times in November".
+export interface Goal {
+  id: string
+  name: string
+  target: GoalTarget
+  count: number
+  // Inclusive window, both ends 'yyyy-MM-dd'.
+  start: string
+  deadline: string
+  // Set once the count is first reached; the badge stays even if progress drops later.
+  achievedAt?: string
+  archived?: boolean
+  updatedAt?: string
+}
+
+// What counts toward a goal: check-ins of the listed habits or of every habit
+// in a category, or projects completed in the window (any project when the list is empty).
+export type GoalTarget =
+  | { type: 'habits'; habitIds: string[] }
+  | { type: 'category'; category: string }
+  | { type: 'projects'; projectIds: string[] }
+
+export interface Project {
+  id: string
+  name: string
+  description: string
+  status: ProjectStatus
+  progress: number
+  startDate: string
+  endDate?: string
+  tasks: Task[]
+  archived?: boolean
+  dueDate?: string
+  milestones?: Milestone[]
+  timeEntries?: TimeEntry[]
+  updatedAt?: string
+}
+
+export interface TimeEntry {
+  id: string
+  // ISO timestamps; `end` stays unset while the timer is running.
+  start: string
+  end?: string
+  // Unset for time logged against the project as a whole.
+  taskId?: string
+  note?: string
+}
+
+export interface Milestone {
+  id: string
+  name: string
+  date: string
+  completed: boolean
+}
+
+export type ProjectStatus = 'not-started' | 'in-progress' | 'completed'
+
+export interface Task {
+  id: string
+  name: string
+  completed: boolean
+  completedDate?: string
+  // Set while an unfinished task sits in the board's "In progress" column.
+  startedDate?: string
+  dueDate?: string
+}
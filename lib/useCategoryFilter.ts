@@ -0,0 +1,30 @@
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import { Habit } from './types'
+import { filterByCategory } from './categories'
+
+// Like the time range, the category filter lives in the URL query and applies
+// to both /habits and /stats.
+export const useCategoryFilter = () => {
+  const params = useSearchParams()
+  const router = useRouter()
+  const pathname = usePathname()
+  const category = params.get('category') || null
+
+  const setCategory = (next: string | null) => {
+    const query = new URLSearchParams(params.toString())
+    if (next) {
+      query.set('category', next)
+    } else {
+      query.delete('category')
+    }
+    const search = query.toString()
+    router.replace(search ? `${pathname}?${search}` : pathname, { scroll: false })
+  }
+
+  return {
+    category,
+    query: category ? { category } : {},
+    setCategory,
+    filterHabits: (habits: Habit[]) => filterByCategory(habits, category)
+  }
+}
@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react'
+
+// Follows the OS "reduce motion" setting. CSS transitions are handled in
+// globals.css; this is for animations driven from script, like chart tweens.
+export const useReducedMotion = () => {
+  const [reduced, setReduced] = useState(false)
+
+  useEffect(() => {
+    const query = window.matchMedia('(prefers-reduced-motion: reduce)')
+    const update = () => setReduced(query.matches)
+    update()
+    query.addEventListener('change', update)
+    return () => query.removeEventListener('change', update)
+  }, [])
+
+  return reduced
+}
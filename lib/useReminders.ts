@@ -0,0 +1,73 @@
+import { useEffect, useRef } from 'react'
+import { todayKey } from './dates'
+import { hasCompletion } from './completionIndex'
+import { describeDigest, getDueReminders, getPendingHabits, isDigestDue } from './reminders'
+import { notificationsSupported, showNotice } from './notifications'
+import { useStore } from './store'
+
+const CHECK_INTERVAL_MS = 30 * 1000
+
+// Checks reminder times while the app is open and handles "Mark done" from
+// notifications, whether it arrives as a message or as ?markDone= on load.
+export const useReminders = () => {
+  const { habits, settings, hydrated, toggleHabitCompletion } = useStore()
+  const latest = useRef({ habits, settings, toggleHabitCompletion })
+  latest.current = { habits, settings, toggleHabitCompletion }
+
+  // Marking done never unchecks a day that was completed in the meantime.
+  const markDone = (habitId: string, date: string = todayKey()) => {
+    const { habits, toggleHabitCompletion } = latest.current
+    const habit = habits.find(h => h.id === habitId)
+    if (habit && !hasCompletion(habit, date)) toggleHabitCompletion(habitId, date)
+  }
+
+  useEffect(() => {
+    if (!hydrated || !notificationsSupported()) return
+
+    let since = new Date()
+    // Showing fails if permission was revoked or the worker isn't active; the next check tries again.
+    const notify = (...args: Parameters<typeof showNotice>) =>
+      showNotice(...args).catch(e => console.error('Failed to show notification', e))
+    const check = () => {
+      const now = new Date()
+      const { habits, settings } = latest.current
+      if (Notification.permission === 'granted') {
+        getDueReminders(habits, since, now).forEach(({ habit }) => {
+          notify(habit.name, {
+            body: `Time for ${habit.name}. Keep your streak going!`,
+            tag: `reminder-${habit.id}`,
+            data: { habitId: habit.id, date: todayKey() },
+            actions: [{ action: 'done', title: 'Mark done' }]
+          })
+        })
+        const pending = getPendingHabits(habits, now)
+        if (isDigestDue(settings.digestTime, since, now) && pending.length > 0) {
+          notify('End-of-day digest', { body: describeDigest(pending), tag: 'digest' })
+        }
+      }
+      since = now
+    }
+    const timer = setInterval(check, CHECK_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [hydrated])
+
+  useEffect(() => {
+    if (!hydrated || !('serviceWorker' in navigator)) return
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'mark-done') markDone(event.data.habitId, event.data.date)
+    }
+    navigator.serviceWorker.addEventListener('message', onMessage)
+    return () => navigator.serviceWorker.removeEventListener('message', onMessage)
+  }, [hydrated])
+
+  useEffect(() => {
+    if (!hydrated) return
+    const url = new URL(window.location.href)
+    const habitId = url.searchParams.get('markDone')
+    if (!habitId) return
+    markDone(habitId, url.searchParams.get('date') ?? undefined)
+    url.searchParams.delete('markDone')
+    url.searchParams.delete('date')
+    window.history.replaceState(null, '', url.toString())
+  }, [hydrated])
+}
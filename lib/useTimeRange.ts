@@ -0,0 +1,34 @@
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import { DateRange } from './types'
+import { TimeRange, getPreviousInterval, getRangeInterval, parseRangeQuery, toRangeQuery } from './ranges'
+
+const RANGE_PARAMS = ['range', 'from', 'to']
+
+// The selected time range lives in the URL query so it can be bookmarked and
+// survives moving between /habits and /stats.
+export const useTimeRange = () => {
+  const params = useSearchParams()
+  const router = useRouter()
+  const pathname = usePathname()
+  const { range, custom } = parseRangeQuery(params)
+  const interval = getRangeInterval(range, custom)
+
+  // Other query parameters, like the category filter, are left as they are.
+  const setTimeRange = (nextRange: TimeRange, nextCustom: DateRange = custom) => {
+    const query = new URLSearchParams(params.toString())
+    RANGE_PARAMS.forEach(key => query.delete(key))
+    Object.entries(toRangeQuery(nextRange, nextCustom)).forEach(([key, value]) => query.set(key, value))
+    const search = query.toString()
+    router.replace(search ? `${pathname}?${search}` : pathname, { scroll: false })
+  }
+
+  return {
+    timeRange: range,
+    customRange: custom,
+    interval,
+    previousInterval: getPreviousInterval(range, interval),
+    query: toRangeQuery(range, custom),
+    setTimeRange,
+    setCustomRange: (next: DateRange) => setTimeRange('custom', next)
+  }
+}
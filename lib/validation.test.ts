@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { makeGoal, makeHabit, makeProject, makeTask } from './fixtures'
+import { validateGoal, validateHabit, validateProject } from './validation'
+
+describe('validateHabit', () => {
+  it('accepts a full habit and fills in a missing category and color', () => {
+    const habit = makeHabit('1', {
+      kind: 'measure',
+      dailyTarget: 8,
+      unit: 'glasses',
+      values: { '2024-06-01': 3 },
+      notes: { '2024-06-01': 'Hot day' },
+      reminders: ['08:30'],
+      schedule: { type: 'times-per-period', times: 3, period: 'week' },
+      createdAt: '2024-06-01T08:00:00.000Z'
+    })
+    expect(validateHabit(habit, 0)).toEqual(habit)
+    expect(validateHabit({ ...habit, category: undefined, color: undefined }, 0)).toMatchObject({ category: 'General', color: '#0ea5e9' })
+  })
+
+  it('rejects malformed nested fields', () => {
+    expect(() => validateHabit({ name: 'x' }, 2)).toThrow('Habit #3 is missing an id or name')
+    expect(() => validateHabit(makeHabit('1', { completions: ['June 1'] }), 0)).toThrow('invalid completions')
+    expect(() => validateHabit(makeHabit('1', { schedule: { type: 'interval', every: 0 } }), 0)).toThrow('invalid schedule')
+    expect(() => validateHabit(makeHabit('1', { dailyTarget: 0 }), 0)).toThrow('invalid daily goal')
+    expect(() => validateHabit(makeHabit('1', { values: { '2024-06-01': -1 } }), 0)).toThrow('invalid logged values')
+    expect(() => validateHabit(makeHabit('1', { reminders: ['8am'] }), 0)).toThrow('invalid reminders')
+  })
+})
+
+describe('validateProject', () => {
+  it('rejects malformed tasks, dates and milestones', () => {
+    expect(validateProject(makeProject('p', { tasks: [makeTask('t')] }), 0).tasks).toHaveLength(1)
+    expect(() => validateProject(makeProject('p', { progress: 120 }), 0)).toThrow('invalid progress')
+    expect(() => validateProject(makeProject('p', { dueDate: 'soon' }), 0)).toThrow('invalid dates')
+    expect(() => validateProject(makeProject('p', { tasks: [makeTask('t', { dueDate: 'tomorrow' })] }), 0)).toThrow('invalid tasks')
+    expect(() => validateProject(makeProject('p', { milestones: [{ id: 'm', name: 'M', date: '2024-13-01', completed: false }] }), 0)).toThrow('invalid milestones')
+  })
+})
+
+describe('validateGoal', () => {
+  it('rejects unknown targets and impossible counts', () => {
+    expect(validateGoal(makeGoal('g'), 0)).toEqual(makeGoal('g'))
+    expect(() => validateGoal({ ...makeGoal('g'), target: { type: 'mood' } }, 0)).toThrow('unknown target')
+    expect(() => validateGoal(makeGoal('g', { count: 1.5 }), 0)).toThrow('invalid count or dates')
+  })
+})
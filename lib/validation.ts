@@ -0,0 +1,178 @@
+import { isValid, parseISO } from 'date-fns'
+import { Category, Goal, Habit, Project } from './types'
+import { DEFAULT_CATEGORY } from './categories'
+
+export const isObject = (value: unknown): value is { [key: string]: unknown } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string')
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean) =>
+  value === undefined || check(value)
+
+// ISO timestamps or 'yyyy-MM-dd' days that parse to a real date.
+const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && isValid(parseISO(value))
+
+const isDateKey = (value: unknown): value is string =>
+  isDateString(value) && /^\d{4}-\d{2}-\d{2}$/.test(value)
+
+const isPositiveInteger = (value: unknown) =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0
+
+const isRecordOf = (value: unknown, check: (value: unknown) => boolean) =>
+  isObject(value) && Object.values(value).every(check)
+
+const isSchedule = (value: unknown) => {
+  if (!isObject(value)) return false
+  switch (value.type) {
+    case 'daily':
+      return true
+    case 'weekdays':
+      return Array.isArray(value.days) && value.days.length > 0 &&
+        value.days.every(d => Number.isInteger(d) && d >= 0 && d <= 6)
+    case 'times-per-period':
+      return isPositiveInteger(value.times) && (value.period === 'week' || value.period === 'month')
+    case 'interval':
+      return isPositiveInteger(value.every)
+    default:
+      return false
+  }
+}
+
+const isPause = (value: unknown) =>
+  isObject(value) && isDateKey(value.start) && isDateKey(value.end) && value.start <= value.end
+
+const isReminderTime = (value: unknown) =>
+  typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value)
+
+const PROJECT_STATUSES = ['not-started', 'in-progress', 'completed']
+
+const isTask = (value: unknown) =>
+  isObject(value) && typeof value.id === 'string' && typeof value.name === 'string' &&
+  typeof value.completed === 'boolean' &&
+  isOptional(value.completedDate, isDateString) &&
+  isOptional(value.startedDate, isDateString) &&
+  isOptional(value.dueDate, isDateKey)
+
+const isMilestone = (value: unknown) =>
+  isObject(value) && typeof value.id === 'string' && typeof value.name === 'string' &&
+  isDateKey(value.date) && typeof value.completed === 'boolean'
+
+const isTimeEntry = (value: unknown) =>
+  isObject(value) && typeof value.id === 'string' && isDateString(value.start) &&
+  isOptional(value.end, isDateString) &&
+  isOptional(value.taskId, v => typeof v === 'string') &&
+  isOptional(value.note, v => typeof v === 'string')
+
+// Validators expect data already migrated to the current schema and throw
+// with a readable message when a record doesn't have the expected shape.
+export const validateHabit = (value: unknown, index: number): Habit => {
+  if (!isObject(value) || typeof value.id !== 'string' || typeof value.name !== 'string') {
+    throw new Error(`Habit #${index + 1} is missing an id or name`)
+  }
+  if (!Array.isArray(value.completions) || !value.completions.every(isDateKey)) {
+    throw new Error(`Habit "${value.name}" has invalid completions`)
+  }
+  if (value.kind !== 'check' && value.kind !== 'measure') {
+    throw new Error(`Habit "${value.name}" has an unknown kind`)
+  }
+  if (!isOptional(value.schedule, isSchedule)) {
+    throw new Error(`Habit "${value.name}" has an invalid schedule`)
+  }
+  if (!isOptional(value.pauses, v => Array.isArray(v) && v.every(isPause))) {
+    throw new Error(`Habit "${value.name}" has invalid paused periods`)
+  }
+  if (!isOptional(value.dailyTarget, v => typeof v === 'number' && v > 0)) {
+    throw new Error(`Habit "${value.name}" has an invalid daily goal`)
+  }
+  if (!isOptional(value.unit, v => typeof v === 'string')) {
+    throw new Error(`Habit "${value.name}" has an invalid unit`)
+  }
+  if (!isOptional(value.values, v => isRecordOf(v, n => typeof n === 'number' && n >= 0))) {
+    throw new Error(`Habit "${value.name}" has invalid logged values`)
+  }
+  if (!isOptional(value.notes, v => isRecordOf(v, n => typeof n === 'string'))) {
+    throw new Error(`Habit "${value.name}" has invalid notes`)
+  }
+  if (!isOptional(value.reminders, v => Array.isArray(v) && v.every(isReminderTime))) {
+    throw new Error(`Habit "${value.name}" has invalid reminders`)
+  }
+  if (!isOptional(value.projectId, v => typeof v === 'string') || !isOptional(value.createdAt, isDateString)) {
+    throw new Error(`Habit "${value.name}" has an invalid project link or creation date`)
+  }
+  return {
+    ...value,
+    category: typeof value.category === 'string' ? value.category : DEFAULT_CATEGORY,
+    color: typeof value.color === 'string' ? value.color : '#0ea5e9'
+  } as Habit
+}
+
+export const validateCategory = (value: unknown, index: number): Category => {
+  if (!isObject(value) || typeof value.id !== 'string' || typeof value.name !== 'string') {
+    throw new Error(`Category #${index + 1} is missing an id or name`)
+  }
+  if (typeof value.color !== 'string') {
+    throw new Error(`Category "${value.name}" has an invalid color`)
+  }
+  if (value.weeklyGoal !== undefined && typeof value.weeklyGoal !== 'number') {
+    throw new Error(`Category "${value.name}" has an invalid weekly goal`)
+  }
+  return value as unknown as Category
+}
+
+const isGoalTarget = (value: unknown) => {
+  if (!isObject(value)) return false
+  switch (value.type) {
+    case 'habits':
+      return isStringArray(value.habitIds)
+    case 'category':
+      return typeof value.category === 'string'
+    case 'projects':
+      return isStringArray(value.projectIds)
+    default:
+      return false
+  }
+}
+
+export const validateGoal = (value: unknown, index: number): Goal => {
+  if (!isObject(value) || typeof value.id !== 'string' || typeof value.name !== 'string') {
+    throw new Error(`Goal #${index + 1} is missing an id or name`)
+  }
+  if (!isGoalTarget(value.target)) {
+    throw new Error(`Goal "${value.name}" has an unknown target`)
+  }
+  if (!isPositiveInteger(value.count) || !isDateKey(value.start) || !isDateKey(value.deadline) || !isOptional(value.achievedAt, isDateString)) {
+    throw new Error(`Goal "${value.name}" has an invalid count or dates`)
+  }
+  return value as unknown as Goal
+}
+
+export const validateProject = (value: unknown, index: number): Project => {
+  if (!isObject(value) || typeof value.id !== 'string' || typeof value.name !== 'string') {
+    throw new Error(`Project #${index + 1} is missing an id or name`)
+  }
+  if (!Array.isArray(value.tasks) || !value.tasks.every(isTask)) {
+    throw new Error(`Project "${value.name}" has invalid tasks`)
+  }
+  if (typeof value.status !== 'string' || !PROJECT_STATUSES.includes(value.status)) {
+    throw new Error(`Project "${value.name}" has an unknown status`)
+  }
+  if (typeof value.progress !== 'number' || value.progress < 0 || value.progress > 100) {
+    throw new Error(`Project "${value.name}" has invalid progress`)
+  }
+  if (!isDateString(value.startDate) || !isOptional(value.endDate, isDateString) || !isOptional(value.dueDate, isDateKey)) {
+    throw new Error(`Project "${value.name}" has invalid dates`)
+  }
+  if (!isOptional(value.milestones, v => Array.isArray(v) && v.every(isMilestone))) {
+    throw new Error(`Project "${value.name}" has invalid milestones`)
+  }
+  if (value.timeEntries !== undefined && (!Array.isArray(value.timeEntries) || !value.timeEntries.every(isTimeEntry))) {
+    throw new Error(`Project "${value.name}" has invalid time entries`)
+  }
+  return {
+    ...value,
+    description: typeof value.description === 'string' ? value.description : ''
+  } as unknown as Project
+}
@@ -0,0 +1,102 @@
+// Service worker: caches the app shell for offline use and handles reminder notifications.
+
+const CACHE = 'tracker-v4'
+const SHELL_PAGES = ['/today', '/habits', '/projects', '/goals', '/stats', '/review']
+const SHELL_FILES = ['/manifest.webmanifest', '/icons/icon-192.png', '/icons/icon-512.png']
+const FALLBACK_PAGE = '/habits'
+
+// Build assets referenced by a page, so every route can start offline after the first visit.
+const STATIC_ASSET_PATTERN = /\/_next\/static\/[^"'\s\\)]+/g
+
+const precache = async () => {
+  const cache = await caches.open(CACHE)
+  await cache.addAll(SHELL_FILES)
+  const assets = new Set()
+  await Promise.all(SHELL_PAGES.map(async page => {
+    const response = await fetch(page)
+    if (!response.ok) return
+    await cache.put(page, response.clone())
+    const html = await response.text()
+    for (const asset of html.match(STATIC_ASSET_PATTERN) || []) assets.add(asset)
+  }))
+  await Promise.all([...assets].map(asset => cache.add(asset).catch(() => undefined)))
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil(precache().then(() => self.skipWaiting()))
+})
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys()
+    await Promise.all(names.filter(name => name !== CACHE).map(name => caches.delete(name)))
+    await self.clients.claim()
+  })())
+})
+
+const putInCache = async (request, response) => {
+  if (!response.ok || response.type === 'opaque') return
+  const cache = await caches.open(CACHE)
+  await cache.put(request, response)
+}
+
+// Pages: the network first so a deploy shows up right away, then the cached copy, then the shell.
+const handleNavigation = async request => {
+  try {
+    const response = await fetch(request)
+    putInCache(request, response.clone())
+    return response
+  } catch (e) {
+    const cached = await caches.match(request, { ignoreSearch: true })
+    return cached || (await caches.match(FALLBACK_PAGE)) || Response.error()
+  }
+}
+
+// Hashed build assets never change, so a cached copy is always good.
+const handleStatic = async request => {
+  const cached = await caches.match(request)
+  if (cached) return cached
+  const response = await fetch(request)
+  putInCache(request, response.clone())
+  return response
+}
+
+const handleOther = async request => {
+  try {
+    const response = await fetch(request)
+    putInCache(request, response.clone())
+    return response
+  } catch (e) {
+    return (await caches.match(request)) || Response.error()
+  }
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event
+  const url = new URL(request.url)
+  // Sync has to reach the server; its client already copes with being offline.
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return
+
+  if (request.mode === 'navigate') event.respondWith(handleNavigation(request))
+  else if (url.pathname.startsWith('/_next/static/')) event.respondWith(handleStatic(request))
+  else event.respondWith(handleOther(request))
+})
+
+// "Mark done" hands the check-in to an open tab, or opens one that applies it on load.
+self.addEventListener('notificationclick', event => {
+  event.notification.close()
+  const { habitId, date } = event.notification.data || {}
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+    if (event.action === 'done' && habitId) {
+      if (windows.length > 0) {
+        windows[0].postMessage({ type: 'mark-done', habitId, date })
+        return windows[0].focus()
+      }
+      return self.clients.openWindow(`/habits?markDone=${encodeURIComponent(habitId)}&date=${date}`)
+    }
+    if (windows.length > 0) return windows[0].focus()
+    return self.clients.openWindow('/habits')
+  })())
+})